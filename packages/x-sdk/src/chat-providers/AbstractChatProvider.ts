@@ -1,28 +1,83 @@
 import { AnyObject } from '../_util/type';
 import { MessageStatus } from '../x-chat';
-import { AbstractXRequestClass, XRequestCallbacks, XRequestOptions } from '../x-request';
+import {
+  AbstractXRequestClass,
+  XRequestCallbacks,
+  XRequestMetrics,
+  XRequestOptions,
+} from '../x-request';
+import type { XModelReasoningFormat, XModelToolCall } from './types/model';
 
 export interface ChatProviderConfig<Input, Output> extends AnyObject {
   request: AbstractXRequestClass<Input, Output> | (() => AbstractXRequestClass<Input, Output>);
 }
 
+export interface ReasoningChatProviderConfig<Input, Output>
+  extends ChatProviderConfig<Input, Output> {
+  /**
+   * 思考过程的输出方式，`tag` 使用 `<think>` 渲染到 content 中，`field` 设置到消息的 `reasoning` 字段
+   */
+  reasoningFormat?: XModelReasoningFormat;
+}
+
+/**
+ * 单次请求的上下文，会传给本次请求的回调，转换消息时需要传回给 Provider
+ */
+export interface ChatRequestContext<ChatMessage = any> extends AnyObject {
+  /**
+   * 本次请求发送的会话历史
+   */
+  messages: ChatMessage[];
+  /**
+   * 本次请求的指标，请求完成后才有值
+   */
+  metrics?: XRequestMetrics;
+}
+
+export interface ChatRequestCallbacks<Output> {
+  onUpdate: (data: Output, responseHeaders: Headers, context?: ChatRequestContext) => void;
+  onSuccess: (data: Output[], responseHeaders: Headers, context?: ChatRequestContext) => void;
+  onError: (error: any, errorInfo?: any) => void;
+}
+
+/**
+ * 单次请求的句柄，用于中止本次请求
+ */
+export interface ChatRequestHandle {
+  abort: () => void;
+}
+
 export interface TransformMessage<ChatMessage, Output> {
   originMessage?: ChatMessage;
   chunk: Output;
   chunks: Output[];
   status: MessageStatus;
   responseHeaders: Headers;
+  /**
+   * 本次请求的上下文，来自 sendRequest 的回调
+   */
+  context?: ChatRequestContext<ChatMessage>;
 }
 
 export default abstract class AbstractChatProvider<ChatMessage, Input, Output> {
   private _request!: AbstractXRequestClass<Input, Output>;
   private _getMessagesFn!: () => ChatMessage[];
   private _originalCallbacks?: XRequestCallbacks<Output>;
+  private _requestMetrics?: XRequestMetrics;
+  // 正在发送的请求的上下文，转换请求参数时 getMessages 返回本次请求的会话历史
+  private _context?: ChatRequestContext<ChatMessage>;
 
   public get request() {
     return this._request;
   }
 
+  /**
+   * 最近一次成功请求的指标，可用于生成消息元数据中的耗时
+   */
+  public get requestMetrics() {
+    return this._requestMetrics;
+  }
+
   constructor(config: ChatProviderConfig<Input, Output>) {
     const request = typeof config.request === 'function' ? config.request() : config.request;
     if (!request.manual) {
@@ -30,8 +85,18 @@ export default abstract class AbstractChatProvider<ChatMessage, Input, Output> {
     }
     this._request = request;
     this._originalCallbacks = this._request.options?.callbacks;
+    // `done` 事件在 onSuccess 之前触发，请求完成时可以取到本次请求的指标
+    this._request.on('done', (event) => {
+      this._requestMetrics = event.metrics;
+    });
   }
 
+  /**
+   * 每次请求（包括重新生成和工具调用后的后续请求）在 sendRequest 中转换参数前调用
+   * @param _requestParams 请求参数
+   */
+  prepareRequest(_requestParams: Partial<Input>): void {}
+
   /**
    * 转换onRequest传入的参数，你可以和Provider实例化时request配置中的params进行合并或者额外处理
    * @param requestParams 请求参数
@@ -54,33 +119,74 @@ export default abstract class AbstractChatProvider<ChatMessage, Input, Output> {
    */
   abstract transformMessage(info: TransformMessage<ChatMessage, Output>): ChatMessage;
 
+  /**
+   * 可在更新返回数据时生成消息的额外信息，会合并到消息的extraInfo中，例如结束原因、token用量等
+   * @param info
+   */
+  transformExtraInfo(_info: TransformMessage<ChatMessage, Output>): AnyObject | undefined {
+    return undefined;
+  }
+
+  /**
+   * 获取消息所属请求的指标，没有请求上下文时使用最近一次成功请求的指标
+   * @param info
+   */
+  protected getRequestMetrics(info: TransformMessage<ChatMessage, Output>) {
+    return info.context ? info.context.metrics : this.requestMetrics;
+  }
+
+  /**
+   * 获取请求完成后助手消息中需要执行的工具调用，配合useXChat的tools配置使用，返回空数组表示模型已正常回答
+   * @param message 请求完成后的消息
+   * @param _context 本次请求的上下文
+   */
+  getToolCalls(message: ChatMessage, _context?: ChatRequestContext<ChatMessage>): XModelToolCall[] {
+    return (message as AnyObject)?.tool_calls || [];
+  }
+
+  /**
+   * 将工具的执行结果转换为工具消息，会作为上下文发送给模型
+   * @param toolCall 工具调用
+   * @param content 工具的执行结果
+   * @param _context 本次请求的上下文
+   */
+  transformToolMessage(
+    toolCall: XModelToolCall,
+    content: string,
+    _context?: ChatRequestContext<ChatMessage>,
+  ): ChatMessage {
+    return {
+      role: 'tool',
+      tool_call_id: toolCall.id,
+      content,
+    } as ChatMessage;
+  }
+
+  /**
+   * 获取会话历史，在 sendRequest 中转换请求参数时返回本次请求的会话历史，其他时候返回注入的会话历史
+   */
   getMessages(): ChatMessage[] {
-    return this?._getMessagesFn();
+    return this._context?.messages ?? this._getMessagesFn?.() ?? [];
   }
 
   injectGetMessages(getMessages: () => ChatMessage[]) {
     this._getMessagesFn = getMessages;
   }
 
-  injectRequest({
-    onUpdate,
-    onSuccess,
-    onError,
-  }: {
-    onUpdate: (data: Output, responseHeaders: Headers) => void;
-    onSuccess: (data: Output[], responseHeaders: Headers) => void;
-    onError: (error: any, errorInfo?: any) => void;
-  }) {
+  private wrapCallbacks(
+    { onUpdate, onSuccess, onError }: ChatRequestCallbacks<Output>,
+    context?: ChatRequestContext<ChatMessage>,
+  ) {
     const originalOnUpdate = this._originalCallbacks?.onUpdate;
     const originalOnSuccess = this._originalCallbacks?.onSuccess;
     const originalOnError = this._originalCallbacks?.onError;
-    this._request.options.callbacks = {
+    return {
       onUpdate: (data: Output, responseHeaders: Headers) => {
-        onUpdate(data, responseHeaders);
+        onUpdate(data, responseHeaders, context);
         if (originalOnUpdate) originalOnUpdate(data, responseHeaders);
       },
       onSuccess: (data: Output[], responseHeaders: Headers) => {
-        onSuccess(data, responseHeaders);
+        onSuccess(data, responseHeaders, context);
         if (originalOnSuccess) originalOnSuccess(data, responseHeaders);
       },
       onError: (error, errorInfo) => {
@@ -89,4 +195,45 @@ export default abstract class AbstractChatProvider<ChatMessage, Input, Output> {
       },
     } as XRequestCallbacks<Output>;
   }
+
+  /**
+   * 设置request的回调，所有请求共享同一组回调，并发请求请使用sendRequest
+   */
+  injectRequest(callbacks: ChatRequestCallbacks<Output>) {
+    this._request.options.callbacks = this.wrapCallbacks(callbacks);
+  }
+
+  /**
+   * 发送请求，每次请求使用独立的请求实例和回调，并发请求互不影响
+   * @param requestParams 请求参数，会经过transformParams转换
+   * @param callbacks 本次请求的回调，会收到本次请求的上下文
+   * @param options.messages 本次请求的会话历史，默认使用 injectGetMessages 注入的会话历史
+   */
+  sendRequest(
+    requestParams: Partial<Input>,
+    callbacks: ChatRequestCallbacks<Output>,
+    options?: { messages?: ChatMessage[] },
+  ): ChatRequestHandle {
+    const context: ChatRequestContext<ChatMessage> = {
+      messages: options?.messages ?? this.getMessages(),
+    };
+    let params: Input;
+    try {
+      this._context = context;
+      this.prepareRequest(requestParams);
+      params = this.transformParams(requestParams, this.request.options);
+    } catch (error) {
+      // 不支持的消息内容等转换错误作为请求失败处理
+      callbacks.onError(error as Error);
+      return { abort: () => {} };
+    } finally {
+      this._context = undefined;
+    }
+    const request = this.request.fork({ callbacks: this.wrapCallbacks(callbacks, context) });
+    request.on('done', (event) => {
+      context.metrics = event.metrics;
+    });
+    request.run(params);
+    return request;
+  }
 }
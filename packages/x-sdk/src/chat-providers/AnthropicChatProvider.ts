@@ -0,0 +1,170 @@
+import { XRequestOptions } from '../x-request';
+import { SSEFields } from '../x-stream';
+import type { TransformMessage } from './AbstractChatProvider';
+import AbstractChatProvider from './AbstractChatProvider';
+import {
+  XAnthropicContentBlock,
+  XAnthropicMessage,
+  XAnthropicParams,
+  XModelContentPart,
+  XModelFileContentPart,
+  XModelImageContentPart,
+  XModelMessage,
+} from './types/model';
+import {
+  getMessageText,
+  parseDataURL,
+  removeThink,
+  renderThinkContent,
+  SYSTEM_ROLES,
+} from './utils';
+
+/**
+ * 将 OpenAI 格式的多模态内容转换为 content block，已经是 content block 的内容直接发送
+ */
+function toContentBlock(part: XModelContentPart | XAnthropicContentBlock): XAnthropicContentBlock {
+  switch (part?.type) {
+    case 'image_url': {
+      const { url } = (part as XModelImageContentPart).image_url;
+      const dataURL = parseDataURL(url);
+      return {
+        type: 'image',
+        source: dataURL
+          ? { type: 'base64', media_type: dataURL.mimeType, data: dataURL.data }
+          : { type: 'url', url },
+      };
+    }
+    case 'file': {
+      const { file_id, file_data, filename } = (part as XModelFileContentPart).file;
+      const dataURL = parseDataURL(file_data);
+      if (dataURL) {
+        return {
+          type: 'document',
+          source: { type: 'base64', media_type: dataURL.mimeType, data: dataURL.data },
+        };
+      }
+      if (file_id) {
+        return { type: 'document', source: { type: 'file', file_id } };
+      }
+      throw new Error(`file [${filename}] has no file data or file id`);
+    }
+    case 'input_audio':
+      throw new Error('content part [input_audio] is not supported by Anthropic');
+    default:
+      return part as XAnthropicContentBlock;
+  }
+}
+
+/**
+ * Anthropic Messages API Chat Provider
+ * @link https://docs.anthropic.com/en/api/messages-streaming
+ * @template ChatMessage 消息类型
+ * @template Input 请求参数类型
+ * @template Output 响应数据类型
+ */
+export default class AnthropicChatProvider<
+  ChatMessage extends XModelMessage = XModelMessage,
+  Input extends XAnthropicParams = XAnthropicParams,
+  Output extends Partial<Record<SSEFields, any>> = Partial<Record<SSEFields, any>>,
+> extends AbstractChatProvider<ChatMessage, Input, Output> {
+  transformParams(requestParams: Partial<Input>, options: XRequestOptions<Input, Output>): Input {
+    const params = {
+      ...(options?.params || {}),
+      ...requestParams,
+    } as Partial<Input>;
+    const systemPrompts: string[] = [];
+    const messages: XAnthropicMessage[] = [];
+
+    (this.getMessages() || []).forEach((message) => {
+      if (SYSTEM_ROLES.includes(message.role)) {
+        systemPrompts.push(getMessageText(message.content));
+        return;
+      }
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      if (Array.isArray(message.content)) {
+        messages.push({ role, content: message.content.map(toContentBlock) });
+        return;
+      }
+      const text = getMessageText(message.content);
+      const content = role === 'assistant' ? removeThink(text) : text;
+      // 空的 text block 会被接口拒绝
+      if (content) {
+        messages.push({ role, content: [{ type: 'text', text: content }] });
+      }
+    });
+
+    let system = params.system;
+    if (systemPrompts.length) {
+      system = Array.isArray(system)
+        ? [
+            ...system,
+            ...systemPrompts.map<XAnthropicContentBlock>((text) => ({ type: 'text', text })),
+          ]
+        : [system, ...systemPrompts].filter(Boolean).join('\n\n');
+    }
+
+    return {
+      ...params,
+      ...(system ? { system } : {}),
+      messages,
+    } as unknown as Input;
+  }
+
+  transformLocalMessage(requestParams: Partial<Input>): ChatMessage[] {
+    return (requestParams?.messages || []) as ChatMessage[];
+  }
+
+  transformMessage(info: TransformMessage<ChatMessage, Output>): ChatMessage {
+    const { originMessage, chunk, chunks, responseHeaders } = info;
+    let currentThink = '';
+    let currentText = '';
+    let originContent = getMessageText(originMessage?.content || '');
+    let role = (originMessage?.role as string) || 'assistant';
+    try {
+      if (responseHeaders.get('content-type')?.includes('text/event-stream')) {
+        const event = chunk?.data ? JSON.parse(chunk.data) : undefined;
+        switch (event?.type) {
+          case 'message_start':
+            role = event.message?.role || role;
+            break;
+          case 'content_block_start':
+            currentThink = event.content_block?.thinking || '';
+            currentText = event.content_block?.text || '';
+            break;
+          case 'content_block_delta':
+            if (event.delta?.type === 'thinking_delta') {
+              currentThink = event.delta.thinking || '';
+            } else if (event.delta?.type === 'text_delta') {
+              currentText = event.delta.text || '';
+            }
+            break;
+          case 'error':
+            console.error('transformMessage error', event.error);
+            break;
+          default:
+            // `ping`, `content_block_stop`, `message_delta` and `message_stop` have no content
+            break;
+        }
+      } else {
+        // 非流式响应一次返回完整的消息，请求完成时会再次转换，不能基于已有的消息拼接
+        originContent = '';
+        const message: any = chunk || chunks[0];
+        role = message?.role || role;
+        message?.content?.forEach((block: XAnthropicContentBlock) => {
+          if (block?.type === 'thinking') {
+            currentThink += block.thinking || '';
+          } else if (block?.type === 'text') {
+            currentText += block.text || '';
+          }
+        });
+      }
+    } catch (error) {
+      console.error('transformMessage error', error);
+    }
+
+    return {
+      content: renderThinkContent(originContent, currentThink, currentText),
+      role,
+    } as ChatMessage;
+  }
+}
@@ -1,10 +1,24 @@
+import type { AnyObject } from '../_util/type';
 import { XRequestOptions } from '../x-request';
 import { SSEFields } from '../x-stream';
-import AbstractChatProvider, { TransformMessage } from './AbstractChatProvider';
-import { XModelMessage, XModelParams } from './types/model';
+import AbstractChatProvider, {
+  ReasoningChatProviderConfig,
+  TransformMessage,
+} from './AbstractChatProvider';
+import { XModelMessage, XModelParams, XModelReasoningFormat } from './types/model';
+import {
+  createMetadataExtraInfo,
+  getOpenAIMetadata,
+  getMessageText,
+  getReasoningContent,
+  mergeReasoning,
+  omitReasoning,
+  parseOpenAIChunks,
+} from './utils';
 
 /**
- * DeepSeek Chat Provider
+ * DeepSeek Chat Provider，默认使用 `<think>` 将 `reasoning_content` 渲染到 content 中，
+ * 配置 `reasoningFormat: 'field'` 时输出到消息的 `reasoning` 字段
  * @template ChatMessage 消息类型
  * @template Input 请求参数类型
  * @template Output 响应数据类型
@@ -14,11 +28,18 @@ export default class DeepSeekChatProvider<
   Input extends XModelParams = XModelParams,
   Output extends Partial<Record<SSEFields, any>> = Partial<Record<SSEFields, any>>,
 > extends AbstractChatProvider<ChatMessage, Input, Output> {
+  private reasoningFormat: XModelReasoningFormat;
+
+  constructor(config: ReasoningChatProviderConfig<Input, Output>) {
+    super(config);
+    this.reasoningFormat = config.reasoningFormat || 'tag';
+  }
+
   transformParams(requestParams: Partial<Input>, options: XRequestOptions<Input, Output>): Input {
     return {
       ...(options?.params || {}),
       ...requestParams,
-      messages: this.getMessages(),
+      messages: this.getMessages()?.map(omitReasoning),
     } as unknown as Input;
   }
 
@@ -31,9 +52,11 @@ export default class DeepSeekChatProvider<
     let currentContent = '';
     let currentThink = '';
     let role = 'assistant';
+    let isStream = false;
     try {
       let message: any;
-      if (responseHeaders.get('content-type')?.includes('text/event-stream')) {
+      isStream = !!responseHeaders.get('content-type')?.includes('text/event-stream');
+      if (isStream) {
         if (chunk && chunk.data?.trim() !== '[DONE]') {
           message = JSON.parse(chunk.data);
         }
@@ -43,11 +66,11 @@ export default class DeepSeekChatProvider<
       if (message) {
         message?.choices?.forEach((choice: any) => {
           if (choice?.delta) {
-            currentThink = choice.delta.reasoning_content || '';
+            currentThink = getReasoningContent(choice.delta);
             currentContent += choice.delta.content || '';
             role = choice.delta.role;
           } else if (choice?.message) {
-            currentThink = choice.message.reasoning_content || '';
+            currentThink = getReasoningContent(choice.message);
             currentContent += choice.message.content || '';
             role = choice.message.role;
           }
@@ -57,10 +80,19 @@ export default class DeepSeekChatProvider<
       console.error('transformMessage error', error);
     }
     let content = '';
-    let originMessageContent =
-      typeof originMessage?.content === 'string'
-        ? originMessage?.content
-        : originMessage?.content.text || '';
+    let originMessageContent = getMessageText(originMessage?.content || '');
+    if (this.reasoningFormat === 'field') {
+      return {
+        content: `${originMessageContent}${currentContent}`,
+        role: role || 'assistant',
+        ...mergeReasoning(
+          isStream ? originMessage : undefined,
+          currentThink,
+          currentContent,
+          info.status === 'success',
+        ),
+      } as ChatMessage;
+    }
     if (!originMessageContent && currentThink) {
       // 仅匹配最多前两个换行符，避免性能问题
       content = `\n\n<think>\n\n${currentThink?.replace?.(/^\n{0,2}/, '')}`;
@@ -81,4 +113,13 @@ export default class DeepSeekChatProvider<
       role: role || 'assistant',
     } as ChatMessage;
   }
+
+  transformExtraInfo(info: TransformMessage<ChatMessage, Output>): AnyObject | undefined {
+    // 用量和结束原因在最后的响应中返回，请求完成时根据完整的 chunks 生成元数据
+    if (info.status !== 'success') {
+      return undefined;
+    }
+    const responses = parseOpenAIChunks(info.chunks, info.responseHeaders);
+    return createMetadataExtraInfo(getOpenAIMetadata(responses), this.getRequestMetrics(info));
+  }
 }
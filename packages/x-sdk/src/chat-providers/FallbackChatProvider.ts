@@ -0,0 +1,246 @@
+import type { AnyObject } from '../_util/type';
+import { XRequestOptions } from '../x-request';
+import { RETRYABLE_STATUS } from '../x-request/retry';
+import type { XFetchError } from '../x-request/x-fetch';
+import type {
+  ChatRequestCallbacks,
+  ChatRequestContext,
+  ChatRequestHandle,
+  TransformMessage,
+} from './AbstractChatProvider';
+import AbstractChatProvider from './AbstractChatProvider';
+import type { XModelMessage, XModelToolCall } from './types/model';
+
+export interface XFallbackInfo {
+  /**
+   * 请求失败的 Provider 的 key
+   */
+  provider: string;
+  /**
+   * 响应状态码，仅在服务端返回非 2xx 状态码时存在
+   */
+  status?: number;
+  errorInfo?: any;
+}
+
+export interface FallbackChatProviderConfig<ChatMessage> {
+  /**
+   * 按顺序尝试的 Provider，请求失败时使用下一个 Provider 重新请求
+   */
+  providers: Record<string, AbstractChatProvider<ChatMessage, any, any>>;
+  /**
+   * 需要切换到下一个 Provider 的响应状态码
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  fallbackStatus?: number[];
+  /**
+   * 需要切换到下一个 Provider 的错误，匹配错误的 name 或 message，`TypeError` 为网络错误
+   * @default ['TimeoutError', 'StreamTimeoutError', 'TypeError']
+   */
+  fallbackErrors?: string[];
+  /**
+   * 自定义是否切换到下一个 Provider，配置后忽略 fallbackStatus 和 fallbackErrors
+   */
+  shouldFallback?: (error: Error, info: XFallbackInfo) => boolean;
+}
+
+const DEFAULT_FALLBACK_ERRORS = ['TimeoutError', 'StreamTimeoutError', 'TypeError'];
+
+/**
+ * 降级 Chat Provider，按顺序使用 Provider 发送请求，请求失败时使用下一个 Provider 重新请求，
+ * 实际回答的 Provider 会记录在消息的 extraInfo 中
+ * @template ChatMessage 消息类型
+ * @template Input 请求参数类型
+ * @template Output 响应数据类型
+ */
+export default class FallbackChatProvider<
+  ChatMessage extends XModelMessage = XModelMessage,
+  Input extends AnyObject = AnyObject,
+  Output = any,
+> extends AbstractChatProvider<ChatMessage, Input, Output> {
+  private _keys: string[];
+  private _providers: Record<string, AbstractChatProvider<ChatMessage, any, any>>;
+  private _config: FallbackChatProviderConfig<ChatMessage>;
+  // 最近一次请求使用的 Provider，每次请求的状态记录在请求上下文中
+  private _index = 0;
+
+  constructor(config: FallbackChatProviderConfig<ChatMessage>) {
+    const keys = Object.keys(config.providers || {});
+    if (!keys.length) {
+      throw new Error('providers is required');
+    }
+    super({ request: config.providers[keys[0]].request });
+    this._keys = keys;
+    this._providers = config.providers;
+    this._config = config;
+  }
+
+  /**
+   * 最近一次请求使用的 Provider 的请求实例
+   */
+  public get request() {
+    return this.activeProvider.request;
+  }
+
+  public get requestMetrics() {
+    return this.activeProvider.requestMetrics;
+  }
+
+  /**
+   * 最近一次请求使用的 Provider 的 key，并发请求各自使用请求上下文中的 Provider
+   */
+  public get activeKey() {
+    return this._keys[this._index];
+  }
+
+  public get activeProvider() {
+    return this._providers[this.activeKey];
+  }
+
+  private shouldFallback(error: Error, info: XFallbackInfo) {
+    if (this._config.shouldFallback) {
+      return this._config.shouldFallback(error, info);
+    }
+    if (error.name === 'AbortError') {
+      return false;
+    }
+    if (info.status !== undefined) {
+      return (this._config.fallbackStatus || RETRYABLE_STATUS).includes(info.status);
+    }
+    return (this._config.fallbackErrors || DEFAULT_FALLBACK_ERRORS).some(
+      (item) => item === error.name || item === error.message,
+    );
+  }
+
+  /**
+   * 请求失败时使用下一个 Provider 重新请求，返回的句柄会中止当前正在使用的 Provider 的请求
+   */
+  sendRequest(
+    requestParams: Partial<Input>,
+    callbacks: ChatRequestCallbacks<Output>,
+    options?: { messages?: ChatMessage[] },
+  ): ChatRequestHandle {
+    const messages = options?.messages ?? this.getMessages();
+    let index = 0;
+    const fallbacks: { provider: string; error: string }[] = [];
+    // 切换 Provider 后不再基于上一个 Provider 的部分输出生成消息
+    let resetOrigin = false;
+    let handle: ChatRequestHandle;
+    // 本次请求的状态记录在上下文中，转换消息时不受其他请求影响
+    const getContext = (providerContext?: ChatRequestContext<ChatMessage>) => {
+      const context = {
+        messages,
+        metrics: providerContext?.metrics,
+        provider: this._keys[index],
+        providerContext,
+        fallbacks: [...fallbacks],
+        resetOrigin,
+      };
+      resetOrigin = false;
+      return context;
+    };
+    const send = () => {
+      const key = this._keys[index];
+      this._index = index;
+      handle = this._providers[key].sendRequest(
+        requestParams,
+        {
+          onUpdate: (data, responseHeaders, context) => {
+            callbacks.onUpdate(data, responseHeaders, getContext(context));
+          },
+          onSuccess: (data, responseHeaders, context) => {
+            callbacks.onSuccess(data, responseHeaders, getContext(context));
+          },
+          onError: (error, errorInfo) => {
+            const info: XFallbackInfo = {
+              provider: key,
+              status: (error as XFetchError)?.status,
+              errorInfo,
+            };
+            if (index < this._keys.length - 1 && this.shouldFallback(error, info)) {
+              fallbacks.push({ provider: key, error: error.message });
+              index += 1;
+              resetOrigin = true;
+              send();
+              return;
+            }
+            callbacks.onError(error, errorInfo);
+          },
+        },
+        { messages },
+      );
+    };
+    send();
+    return {
+      abort: () => handle.abort(),
+    };
+  }
+
+  transformParams(requestParams: Partial<Input>, _options: XRequestOptions<Input, Output>): Input {
+    // 使用实际 Provider 的请求配置
+    return this.activeProvider.transformParams(requestParams, this.activeProvider.request.options);
+  }
+
+  // 使用请求上下文中记录的 Provider 转换消息，没有上下文时使用最近一次请求的 Provider
+  private getRequestProvider(context?: ChatRequestContext<ChatMessage>) {
+    const key: string = context?.provider ?? this.activeKey;
+    return {
+      key,
+      provider: this._providers[key] ?? this.activeProvider,
+      context: context?.providerContext as ChatRequestContext<ChatMessage> | undefined,
+    };
+  }
+
+  transformLocalMessage(requestParams: Partial<Input>): ChatMessage | ChatMessage[] {
+    // 每次请求都从第一个 Provider 开始
+    return this._providers[this._keys[0]].transformLocalMessage(requestParams);
+  }
+
+  transformMessage(info: TransformMessage<ChatMessage, Output>): ChatMessage {
+    const { provider, context } = this.getRequestProvider(info.context);
+    return provider.transformMessage({
+      ...info,
+      ...(info.context?.resetOrigin ? { originMessage: undefined } : {}),
+      context,
+    });
+  }
+
+  transformExtraInfo(info: TransformMessage<ChatMessage, Output>): AnyObject | undefined {
+    const { key, provider, context } = this.getRequestProvider(info.context);
+    const fallbacks = info.context?.fallbacks;
+    return {
+      ...provider.transformExtraInfo({ ...info, context }),
+      provider: key,
+      ...(fallbacks?.length ? { fallbacks } : {}),
+    };
+  }
+
+  getToolCalls(message: ChatMessage, context?: ChatRequestContext<ChatMessage>): XModelToolCall[] {
+    const requestProvider = this.getRequestProvider(context);
+    return requestProvider.provider.getToolCalls(message, requestProvider.context);
+  }
+
+  transformToolMessage(
+    toolCall: XModelToolCall,
+    content: string,
+    context?: ChatRequestContext<ChatMessage>,
+  ): ChatMessage {
+    const requestProvider = this.getRequestProvider(context);
+    return requestProvider.provider.transformToolMessage(
+      toolCall,
+      content,
+      requestProvider.context,
+    );
+  }
+
+  injectGetMessages(getMessages: () => ChatMessage[]) {
+    super.injectGetMessages(getMessages);
+    this._keys.forEach((key) => {
+      this._providers[key].injectGetMessages(getMessages);
+    });
+  }
+
+  injectRequest(callbacks: ChatRequestCallbacks<Output>) {
+    this.activeProvider.injectRequest(callbacks);
+  }
+}
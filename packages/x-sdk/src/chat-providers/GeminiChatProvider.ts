@@ -0,0 +1,216 @@
+import { XRequestOptions } from '../x-request';
+import { SSEFields } from '../x-stream';
+import type { TransformMessage } from './AbstractChatProvider';
+import AbstractChatProvider from './AbstractChatProvider';
+import {
+  XGeminiContent,
+  XGeminiParams,
+  XGeminiPart,
+  XGeminiResponse,
+  XModelAudioContentPart,
+  XModelContentPart,
+  XModelFileContentPart,
+  XModelImageContentPart,
+  XModelMessage,
+  XModelTextContentPart,
+  XModelToolCall,
+} from './types/model';
+import {
+  getMessageText,
+  getToolNames,
+  parseDataURL,
+  parseToolArguments,
+  removeThink,
+  renderThinkContent,
+  SYSTEM_ROLES,
+} from './utils';
+
+/**
+ * 将 OpenAI 格式的多模态内容转换为 Gemini 的 part，已经是 part 的内容直接发送
+ */
+function toPart(part: XModelContentPart | XGeminiPart): XGeminiPart {
+  switch (part?.type) {
+    case 'text':
+      return { text: (part as XModelTextContentPart).text };
+    case 'image_url': {
+      const { url } = (part as XModelImageContentPart).image_url;
+      const dataURL = parseDataURL(url);
+      return dataURL ? { inlineData: dataURL } : { fileData: { fileUri: url } };
+    }
+    case 'input_audio': {
+      const { data, format } = (part as XModelAudioContentPart).input_audio;
+      return { inlineData: { mimeType: `audio/${format}`, data } };
+    }
+    case 'file': {
+      const { file_id, file_data, filename } = (part as XModelFileContentPart).file;
+      const dataURL = parseDataURL(file_data);
+      if (dataURL) {
+        return { inlineData: dataURL };
+      }
+      if (file_id) {
+        return { fileData: { fileUri: file_id } };
+      }
+      throw new Error(`file [${filename}] has no file data or file id`);
+    }
+    default:
+      return part as XGeminiPart;
+  }
+}
+
+/**
+ * 将 XModelMessage 转换为 Gemini 的 parts
+ * @param toolNames 工具调用 id 对应的工具名称，functionResponse 需要工具名称
+ */
+function toParts(message: XModelMessage, toolNames: Record<string, string>): XGeminiPart[] {
+  if (Array.isArray(message.content)) {
+    return message.content.map(toPart);
+  }
+  if (message.role === 'tool') {
+    const content = getMessageText(message.content);
+    let response: any;
+    try {
+      response = JSON.parse(content);
+    } catch {
+      response = { content };
+    }
+    return [
+      {
+        functionResponse: {
+          name: message.name || toolNames[message.tool_call_id!],
+          // functionResponse.response 需要是对象
+          response: response && typeof response === 'object' ? response : { content: response },
+        },
+      },
+    ];
+  }
+  const text = getMessageText(message.content);
+  const parts: XGeminiPart[] = [];
+  const content = message.role === 'assistant' ? removeThink(text) : text;
+  if (content) {
+    parts.push({ text: content });
+  }
+  message.tool_calls?.forEach((toolCall) => {
+    parts.push({
+      functionCall: {
+        name: toolCall.function.name,
+        args: parseToolArguments(toolCall.function.arguments),
+      },
+    });
+  });
+  return parts;
+}
+
+/**
+ * Google Gemini generateContent Chat Provider
+ * @link https://ai.google.dev/api/generate-content
+ * @template ChatMessage 消息类型
+ * @template Input 请求参数类型
+ * @template Output 响应数据类型
+ */
+export default class GeminiChatProvider<
+  ChatMessage extends XModelMessage = XModelMessage,
+  Input extends XGeminiParams = XGeminiParams,
+  Output extends Partial<Record<SSEFields, any>> = Partial<Record<SSEFields, any>>,
+> extends AbstractChatProvider<ChatMessage, Input, Output> {
+  transformParams(requestParams: Partial<Input>, options: XRequestOptions<Input, Output>): Input {
+    const { messages: _, ...params } = {
+      ...(options?.params || {}),
+      ...requestParams,
+    } as Partial<Input>;
+    const systemParts: XGeminiPart[] = [...(params.systemInstruction?.parts || [])];
+    const contents: XGeminiContent[] = [];
+    const messages = this.getMessages() || [];
+    const toolNames = getToolNames(messages);
+
+    messages.forEach((message) => {
+      if (SYSTEM_ROLES.includes(message.role)) {
+        const text = getMessageText(message.content);
+        if (text) {
+          systemParts.push({ text });
+        }
+        return;
+      }
+      const parts = toParts(message, toolNames);
+      // 空的 parts 会被接口拒绝
+      if (parts.length) {
+        contents.push({ role: message.role === 'assistant' ? 'model' : 'user', parts });
+      }
+    });
+
+    return {
+      ...params,
+      ...(systemParts.length ? { systemInstruction: { parts: systemParts } } : {}),
+      contents,
+    } as unknown as Input;
+  }
+
+  transformLocalMessage(requestParams: Partial<Input>): ChatMessage[] {
+    return (requestParams?.messages || []) as ChatMessage[];
+  }
+
+  transformMessage(info: TransformMessage<ChatMessage, Output>): ChatMessage {
+    const { originMessage, chunk, chunks, responseHeaders } = info;
+    const isStream = responseHeaders.get('content-type')?.includes('text/event-stream');
+    // 请求完成时没有 chunk，使用完整的 chunks 重新生成消息，避免重复拼接
+    const origin = chunk ? originMessage : undefined;
+    const responses: XGeminiResponse[] = [];
+    try {
+      (chunk ? [chunk] : chunks).forEach((item: any) => {
+        const data = isStream ? (item?.data ? JSON.parse(item.data) : undefined) : item;
+        // 未使用 `alt=sse` 的流式接口会返回 JSON 数组
+        responses.push(...(Array.isArray(data) ? data : data ? [data] : []));
+      });
+    } catch (error) {
+      console.error('transformMessage error', error);
+    }
+
+    const message: XModelMessage = {
+      ...origin,
+      role: 'assistant',
+      content: getMessageText(origin?.content || ''),
+    };
+    const toolCalls: XModelToolCall[] = [...(origin?.tool_calls || [])];
+    responses.forEach((response) => {
+      // 只处理第一个候选结果
+      const candidate = response?.candidates?.[0];
+      let currentThink = '';
+      let currentText = '';
+      candidate?.content?.parts?.forEach((part) => {
+        if (part.thought) {
+          currentThink += part.text || '';
+        } else if (part.text) {
+          currentText += part.text;
+        } else if (part.inlineData) {
+          currentText += `\n\n![](data:${part.inlineData.mimeType};base64,${part.inlineData.data})\n\n`;
+        } else if (part.functionCall) {
+          toolCalls.push({
+            id: part.functionCall.id || `${part.functionCall.name}-${toolCalls.length}`,
+            type: 'function',
+            function: {
+              name: part.functionCall.name,
+              arguments: JSON.stringify(part.functionCall.args || {}),
+            },
+          });
+        }
+      });
+      message.content = renderThinkContent(message.content as string, currentThink, currentText);
+      // 安全拦截等结束原因需要暴露在消息上，不能静默丢弃
+      if (candidate?.finishReason) {
+        message.finish_reason = candidate.finishReason;
+      }
+      if (candidate?.safetyRatings) {
+        message.safety_ratings = candidate.safetyRatings;
+      }
+      if (response?.promptFeedback?.blockReason) {
+        message.finish_reason = response.promptFeedback.blockReason;
+        message.block_reason = response.promptFeedback.blockReason;
+        message.safety_ratings = response.promptFeedback.safetyRatings;
+      }
+    });
+    if (toolCalls.length) {
+      message.tool_calls = toolCalls;
+    }
+
+    return message as ChatMessage;
+  }
+}
@@ -0,0 +1,153 @@
+import type { AnyObject } from '../_util/type';
+import { XRequestOptions } from '../x-request';
+import type { TransformMessage } from './AbstractChatProvider';
+import AbstractChatProvider from './AbstractChatProvider';
+import {
+  XModelMessage,
+  XModelToolCall,
+  XOllamaMessage,
+  XOllamaParams,
+  XOllamaResponse,
+} from './types/model';
+import {
+  createMetadataExtraInfo,
+  getMessageText,
+  getToolNames,
+  parseToolArguments,
+  removeThink,
+  renderThinkContent,
+} from './utils';
+
+/**
+ * 结束时返回的统计信息，会合并到消息的 extraInfo 中
+ */
+const EXTRA_INFO_FIELDS = [
+  'model',
+  'done_reason',
+  'total_duration',
+  'load_duration',
+  'prompt_eval_count',
+  'prompt_eval_duration',
+  'eval_count',
+  'eval_duration',
+] as const;
+
+/**
+ * Ollama Chat Provider，`/api/chat` 接口流式返回 NDJSON，由 XRequest 内置的 NDJSON transformer 解析
+ * @link https://github.com/ollama/ollama/blob/main/docs/api.md#generate-a-chat-completion
+ * @template ChatMessage 消息类型
+ * @template Input 请求参数类型
+ * @template Output 响应数据类型
+ */
+export default class OllamaChatProvider<
+  ChatMessage extends XModelMessage = XModelMessage,
+  Input extends XOllamaParams = XOllamaParams,
+  Output extends XOllamaResponse = XOllamaResponse,
+> extends AbstractChatProvider<ChatMessage, Input, Output> {
+  transformParams(requestParams: Partial<Input>, options: XRequestOptions<Input, Output>): Input {
+    const chatMessages = this.getMessages() || [];
+    const toolNames = getToolNames(chatMessages);
+    const messages = chatMessages.map<XOllamaMessage>((message) => {
+      const { tool_calls: toolCalls, ...rest } = message;
+      const text = getMessageText(message.content);
+      const ollamaMessage: XOllamaMessage = {
+        ...rest,
+        role: message.role,
+        content: message.role === 'assistant' ? removeThink(text) : text,
+      };
+      if (toolCalls) {
+        // Ollama 的工具调用参数是对象
+        ollamaMessage.tool_calls = toolCalls.map((toolCall) => ({
+          function: {
+            name: toolCall.function.name,
+            arguments: parseToolArguments(toolCall.function.arguments),
+          },
+        }));
+      }
+      if (message.role === 'tool' && !message.tool_name) {
+        const toolName = message.name || toolNames[message.tool_call_id!];
+        if (toolName) {
+          ollamaMessage.tool_name = toolName;
+        }
+      }
+      return ollamaMessage;
+    });
+
+    return {
+      ...(options?.params || {}),
+      ...requestParams,
+      messages,
+    } as unknown as Input;
+  }
+
+  transformLocalMessage(requestParams: Partial<Input>): ChatMessage[] {
+    return (requestParams?.messages || []) as ChatMessage[];
+  }
+
+  transformMessage(info: TransformMessage<ChatMessage, Output>): ChatMessage {
+    const { originMessage, chunk, chunks } = info;
+    // 请求完成时没有 chunk，使用完整的 chunks 重新生成消息，避免重复拼接
+    const origin = chunk ? originMessage : undefined;
+    const message: XModelMessage = {
+      ...origin,
+      role: origin?.role || 'assistant',
+      content: getMessageText(origin?.content || ''),
+    };
+    const toolCalls: XModelToolCall[] = [...(origin?.tool_calls || [])];
+
+    (chunk ? [chunk] : chunks).forEach((response) => {
+      if (!response?.message) {
+        return;
+      }
+      message.role = response.message.role || message.role;
+      message.content = renderThinkContent(
+        message.content as string,
+        response.message.thinking || '',
+        response.message.content || '',
+      );
+      response.message.tool_calls?.forEach((toolCall) => {
+        toolCalls.push({
+          id: `${toolCall.function.name}-${toolCalls.length}`,
+          type: 'function',
+          function: {
+            name: toolCall.function.name,
+            arguments: JSON.stringify(toolCall.function.arguments || {}),
+          },
+        });
+      });
+    });
+    if (toolCalls.length) {
+      message.tool_calls = toolCalls;
+    }
+
+    return message as ChatMessage;
+  }
+
+  transformExtraInfo(info: TransformMessage<ChatMessage, Output>): AnyObject | undefined {
+    const { chunk, chunks } = info;
+    const response = (chunk ? [chunk] : chunks).find((item) => item?.done);
+    if (!response) {
+      return undefined;
+    }
+    const extraInfo = EXTRA_INFO_FIELDS.reduce<AnyObject>((result, field) => {
+      if (response[field] !== undefined) {
+        result[field] = response[field];
+      }
+      return result;
+    }, {});
+    const promptTokens = response.prompt_eval_count || 0;
+    const completionTokens = response.eval_count || 0;
+    return {
+      ...extraInfo,
+      ...createMetadataExtraInfo(
+        {
+          model: response.model,
+          finishReason: response.done_reason,
+          usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+        },
+        // 请求完成前取到的是上一次请求的指标
+        info.status === 'success' ? this.getRequestMetrics(info) : undefined,
+      ),
+    };
+  }
+}
@@ -1,10 +1,64 @@
+import type { AnyObject } from '../_util/type';
 import { XRequestOptions } from '../x-request';
 import { SSEFields } from '../x-stream';
-import type { TransformMessage } from './AbstractChatProvider';
+import type { ReasoningChatProviderConfig, TransformMessage } from './AbstractChatProvider';
 import AbstractChatProvider from './AbstractChatProvider';
-import { XModelMessage, XModelParams } from './types/model';
+import {
+  XModelContentPart,
+  XModelMessage,
+  XModelParams,
+  XModelReasoningFormat,
+  XModelToolCall,
+} from './types/model';
+import {
+  createMetadataExtraInfo,
+  getOpenAIMetadata,
+  getReasoningContent,
+  mergeReasoning,
+  mergeToolCallDeltas,
+  omitReasoning,
+  parseOpenAIChunks,
+  renderThinkContent,
+} from './utils';
+
+/**
+ * 转换为 OpenAI 格式的消息，单个内容对象需要转换为内容数组，思考过程不需要发送给模型
+ */
+function toOpenAIMessage<ChatMessage extends XModelMessage>(message: ChatMessage) {
+  const openAIMessage = omitReasoning(message);
+  if (openAIMessage.content && typeof openAIMessage.content === 'object') {
+    return {
+      ...openAIMessage,
+      content: Array.isArray(openAIMessage.content)
+        ? openAIMessage.content
+        : [openAIMessage.content],
+    };
+  }
+  return openAIMessage;
+}
+
+/**
+ * 获取响应中的内容，部分 OpenAI 兼容接口返回内容数组或 `images`，图片使用 markdown 渲染
+ */
+function getResponseContent(message: AnyObject) {
+  const parts: XModelContentPart[] = [
+    ...(Array.isArray(message.content) ? message.content : []),
+    ...(message.images || []),
+  ];
+  let content = typeof message.content === 'string' ? message.content : '';
+  parts.forEach((part) => {
+    if (part?.type === 'text') {
+      content += part.text;
+    } else if (part?.type === 'image_url') {
+      content += `\n\n![](${part.image_url.url})\n\n`;
+    }
+  });
+  return content;
+}
+
 /**
- * LLM OpenAI Compatible Chat Provider
+ * LLM OpenAI Compatible Chat Provider，兼容接口返回的 `reasoning` 或 `reasoning_content` 默认输出到消息的 `reasoning` 字段，
+ * 配置 `reasoningFormat: 'tag'` 时使用 `<think>` 渲染到 content 中
  * @template ChatMessage 消息类型
  * @template Input 请求参数类型
  * @template Output 响应数据类型
@@ -14,11 +68,18 @@ export default class OpenAIChatProvider<
   Input extends XModelParams = XModelParams,
   Output extends Partial<Record<SSEFields, any>> = Partial<Record<SSEFields, any>>,
 > extends AbstractChatProvider<ChatMessage, Input, Output> {
+  private reasoningFormat: XModelReasoningFormat;
+
+  constructor(config: ReasoningChatProviderConfig<Input, Output>) {
+    super(config);
+    this.reasoningFormat = config.reasoningFormat || 'field';
+  }
+
   transformParams(requestParams: Partial<Input>, options: XRequestOptions<Input, Output>): Input {
     return {
       ...(options?.params || {}),
       ...requestParams,
-      messages: this.getMessages(),
+      messages: this.getMessages()?.map(toOpenAIMessage),
     } as unknown as Input;
   }
 
@@ -29,10 +90,14 @@ export default class OpenAIChatProvider<
   transformMessage(info: TransformMessage<ChatMessage, Output>): ChatMessage {
     const { originMessage, chunk, chunks, responseHeaders } = info;
     let currentContent = '';
+    let currentReasoning = '';
     let role = 'assistant';
+    let toolCalls: XModelToolCall[] = originMessage?.tool_calls || [];
+    let isStream = false;
     try {
       let message: any;
-      if (responseHeaders.get('content-type')?.includes('text/event-stream')) {
+      isStream = !!responseHeaders.get('content-type')?.includes('text/event-stream');
+      if (isStream) {
         if (chunk && chunk.data?.trim() !== '[DONE]') {
           message = JSON.parse(chunk.data);
         }
@@ -42,11 +107,20 @@ export default class OpenAIChatProvider<
       if (message) {
         message?.choices?.forEach((choice: any) => {
           if (choice?.delta) {
-            currentContent += choice.delta.content || '';
+            currentContent += getResponseContent(choice.delta);
+            currentReasoning += getReasoningContent(choice.delta);
             role = choice.delta.role || 'assistant';
+            if (choice.delta.tool_calls) {
+              toolCalls = mergeToolCallDeltas(toolCalls, choice.delta.tool_calls);
+            }
           } else if (choice?.message) {
-            currentContent += choice.message.content || '';
+            currentContent += getResponseContent(choice.message);
+            currentReasoning += getReasoningContent(choice.message);
             role = choice.message.role || 'assistant';
+            // 非流式响应返回完整的工具调用
+            if (choice.message.tool_calls) {
+              toolCalls = choice.message.tool_calls;
+            }
           }
         });
       }
@@ -54,11 +128,32 @@ export default class OpenAIChatProvider<
       console.error('transformMessage error', error);
     }
 
-    const content = `${originMessage?.content || ''}${currentContent || ''}`;
+    const originContent = `${originMessage?.content || ''}`;
+    const isTag = this.reasoningFormat === 'tag';
 
     return {
-      content,
+      content: isTag
+        ? renderThinkContent(originContent, currentReasoning, currentContent)
+        : `${originContent}${currentContent}`,
       role,
+      ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+      ...(isTag
+        ? {}
+        : mergeReasoning(
+            isStream ? originMessage : undefined,
+            currentReasoning,
+            currentContent,
+            info.status === 'success',
+          )),
     } as ChatMessage;
   }
+
+  transformExtraInfo(info: TransformMessage<ChatMessage, Output>): AnyObject | undefined {
+    // 用量和结束原因在最后的响应中返回，请求完成时根据完整的 chunks 生成元数据
+    if (info.status !== 'success') {
+      return undefined;
+    }
+    const responses = parseOpenAIChunks(info.chunks, info.responseHeaders);
+    return createMetadataExtraInfo(getOpenAIMetadata(responses), this.getRequestMetrics(info));
+  }
 }
@@ -0,0 +1,243 @@
+import type { AnyObject } from '../_util/type';
+import { XRequestOptions } from '../x-request';
+import type {
+  ChatRequestCallbacks,
+  ChatRequestContext,
+  ChatRequestHandle,
+  TransformMessage,
+} from './AbstractChatProvider';
+import AbstractChatProvider from './AbstractChatProvider';
+import type { XModelMessage, XModelToolCall } from './types/model';
+
+export interface RouterChatProviderConfig<ChatMessage, Input> {
+  /**
+   * 按 key 注册的 Provider，请求参数中的 `model` 与 key 相同时使用对应的 Provider
+   */
+  providers: Record<string, AbstractChatProvider<ChatMessage, any, any>>;
+  /**
+   * 默认使用的 Provider 的 key，默认为第一个注册的 Provider
+   */
+  defaultProvider?: string;
+  /**
+   * 自定义每次请求使用的 Provider，返回 Provider 的 key，没有返回时按 `model` 匹配。
+   * messages 为本次请求发送的会话历史
+   */
+  route?: (requestParams: Partial<Input>, info: { messages: ChatMessage[] }) => string | undefined;
+}
+
+function getDefaultKey(config: RouterChatProviderConfig<any, any>) {
+  const key = config.defaultProvider ?? Object.keys(config.providers || {})[0];
+  if (!key || !config.providers[key]) {
+    throw new Error(`provider [${key}] is not found`);
+  }
+  return key;
+}
+
+/**
+ * 路由 Chat Provider，每次请求根据请求参数中的 `model` 或者 `route` 选择实际使用的 Provider，
+ * 所有 Provider 共享会话历史，切换模型或厂商不需要重新创建 useXChat
+ * @template ChatMessage 消息类型
+ * @template Input 请求参数类型
+ * @template Output 响应数据类型
+ */
+export default class RouterChatProvider<
+  ChatMessage extends XModelMessage = XModelMessage,
+  Input extends AnyObject = AnyObject,
+  Output = any,
+> extends AbstractChatProvider<ChatMessage, Input, Output> {
+  private _providers: Map<string, AbstractChatProvider<ChatMessage, any, any>>;
+  private _defaultKey: string;
+  private _activeKey: string;
+  private _route?: RouterChatProviderConfig<ChatMessage, Input>['route'];
+  private _getMessages?: () => ChatMessage[];
+
+  constructor(config: RouterChatProviderConfig<ChatMessage, Input>) {
+    const defaultKey = getDefaultKey(config);
+    super({ request: config.providers[defaultKey].request });
+    this._providers = new Map(Object.entries(config.providers));
+    this._defaultKey = defaultKey;
+    this._activeKey = defaultKey;
+    this._route = config.route;
+  }
+
+  /**
+   * 最近一次请求使用的 Provider 的请求实例
+   */
+  public get request() {
+    return this.activeProvider.request;
+  }
+
+  public get requestMetrics() {
+    return this.activeProvider.requestMetrics;
+  }
+
+  /**
+   * 最近一次请求使用的 Provider 的 key，并发请求各自使用请求上下文中的 Provider
+   */
+  public get activeKey() {
+    return this._activeKey;
+  }
+
+  public get activeProvider() {
+    return this._providers.get(this._activeKey)!;
+  }
+
+  /**
+   * 已注册的 Provider 的 key，可用于渲染模型选择器
+   */
+  public get keys() {
+    return [...this._providers.keys()];
+  }
+
+  getProvider(key: string) {
+    return this._providers.get(key);
+  }
+
+  /**
+   * 注册 Provider，key 已存在时会替换原有的 Provider
+   */
+  register(key: string, provider: AbstractChatProvider<ChatMessage, any, any>) {
+    if (this._getMessages) {
+      provider.injectGetMessages(this._getMessages);
+    }
+    this._providers.set(key, provider);
+  }
+
+  /**
+   * 移除 Provider，默认的 Provider 不能移除
+   */
+  unregister(key: string) {
+    if (key === this._defaultKey) {
+      throw new Error(`default provider [${key}] can not be unregistered`);
+    }
+    this._providers.delete(key);
+    if (key === this._activeKey) {
+      this._activeKey = this._defaultKey;
+    }
+  }
+
+  /**
+   * 设置默认使用的 Provider，请求参数中没有匹配的 `model` 时使用
+   */
+  setDefaultProvider(key: string) {
+    if (!this._providers.has(key)) {
+      throw new Error(`provider [${key}] is not found`);
+    }
+    this._defaultKey = key;
+  }
+
+  private resolveKey(requestParams: Partial<Input>, messages: ChatMessage[]) {
+    const model = requestParams?.model;
+    const key =
+      this._route?.(requestParams, { messages }) ??
+      (typeof model === 'string' && this._providers.has(model) ? model : this._defaultKey);
+    if (!this._providers.has(key)) {
+      throw new Error(`provider [${key}] is not found`);
+    }
+    return key;
+  }
+
+  // 使用请求上下文中记录的 Provider 转换消息，没有上下文时使用最近一次请求的 Provider
+  private getRequestProvider(context?: ChatRequestContext<ChatMessage>) {
+    const key: string = context?.provider ?? this._activeKey;
+    return {
+      key,
+      provider: this._providers.get(key) ?? this.activeProvider,
+      context: context?.providerContext as ChatRequestContext<ChatMessage> | undefined,
+    };
+  }
+
+  transformParams(requestParams: Partial<Input>, _options: XRequestOptions<Input, Output>): Input {
+    // 使用实际 Provider 的请求配置
+    return this.activeProvider.transformParams(requestParams, this.activeProvider.request.options);
+  }
+
+  transformLocalMessage(requestParams: Partial<Input>): ChatMessage | ChatMessage[] {
+    // 本地消息在发送请求前生成，使用本次请求将要使用的 Provider
+    let key = this._activeKey;
+    try {
+      key = this.resolveKey(requestParams, this.getMessages());
+    } catch {
+      // 找不到 Provider 时由 sendRequest 处理
+    }
+    return this._providers.get(key)!.transformLocalMessage(requestParams);
+  }
+
+  transformMessage(info: TransformMessage<ChatMessage, Output>): ChatMessage {
+    const { provider, context } = this.getRequestProvider(info.context);
+    return provider.transformMessage({ ...info, context });
+  }
+
+  transformExtraInfo(info: TransformMessage<ChatMessage, Output>): AnyObject | undefined {
+    const { key, provider, context } = this.getRequestProvider(info.context);
+    // 记录回答消息的 Provider，便于展示消息来自哪个模型
+    return { ...provider.transformExtraInfo({ ...info, context }), provider: key };
+  }
+
+  getToolCalls(message: ChatMessage, context?: ChatRequestContext<ChatMessage>): XModelToolCall[] {
+    const requestProvider = this.getRequestProvider(context);
+    return requestProvider.provider.getToolCalls(message, requestProvider.context);
+  }
+
+  transformToolMessage(
+    toolCall: XModelToolCall,
+    content: string,
+    context?: ChatRequestContext<ChatMessage>,
+  ): ChatMessage {
+    const requestProvider = this.getRequestProvider(context);
+    return requestProvider.provider.transformToolMessage(
+      toolCall,
+      content,
+      requestProvider.context,
+    );
+  }
+
+  injectGetMessages(getMessages: () => ChatMessage[]) {
+    super.injectGetMessages(getMessages);
+    this._getMessages = getMessages;
+    // 所有 Provider 共享会话历史
+    this._providers.forEach((provider) => {
+      provider.injectGetMessages(getMessages);
+    });
+  }
+
+  injectRequest(callbacks: ChatRequestCallbacks<Output>) {
+    this.activeProvider.injectRequest(callbacks);
+  }
+
+  sendRequest(
+    requestParams: Partial<Input>,
+    callbacks: ChatRequestCallbacks<Output>,
+    options?: { messages?: ChatMessage[] },
+  ): ChatRequestHandle {
+    const messages = options?.messages ?? this.getMessages();
+    let key: string;
+    try {
+      key = this.resolveKey(requestParams, messages);
+    } catch (error) {
+      callbacks.onError(error as Error);
+      return { abort: () => {} };
+    }
+    this._activeKey = key;
+    // 本次请求使用的 Provider 记录在上下文中，转换消息时不受其他请求影响
+    const getContext = (providerContext?: ChatRequestContext<ChatMessage>) => ({
+      messages,
+      metrics: providerContext?.metrics,
+      provider: key,
+      providerContext,
+    });
+    return this._providers.get(key)!.sendRequest(
+      requestParams,
+      {
+        onUpdate: (data, responseHeaders, context) => {
+          callbacks.onUpdate(data, responseHeaders, getContext(context));
+        },
+        onSuccess: (data, responseHeaders, context) => {
+          callbacks.onSuccess(data, responseHeaders, getContext(context));
+        },
+        onError: callbacks.onError,
+      },
+      { messages },
+    );
+  }
+}
@@ -0,0 +1,254 @@
+import { AnthropicChatProvider } from '../../chat-providers';
+import XRequest from '../../x-request';
+import { XModelMessage } from '../types/model';
+import { anthropicMessage, anthropicThinkingStream } from './fixtures/anthropic';
+import { parseStreamFixture } from './fixtures/utils';
+
+const baseURL = 'http://localhost:3000';
+
+const createProvider = () =>
+  new AnthropicChatProvider({
+    request: XRequest(baseURL, {
+      manual: true,
+    }),
+  });
+
+const streamHeaders = new Headers();
+streamHeaders.set('content-type', 'text/event-stream');
+const jsonHeaders = new Headers();
+jsonHeaders.set('content-type', 'application/json');
+
+describe('AnthropicChatProvider test', () => {
+  it('should initialize successfully', () => {
+    expect(createProvider()).not.toBeNull();
+  });
+
+  describe('transformParams', () => {
+    it('should separate the system prompt and convert messages to content blocks', () => {
+      const provider = createProvider();
+      provider.injectGetMessages(() => [
+        { role: 'system', content: 'Be concise.' },
+        { role: 'user', content: 'What is 27 * 453?' },
+        {
+          role: 'assistant',
+          content: '\n\n<think status="done">\n\nLet me calculate\n\n</think>\n\n12,231',
+        },
+        { role: 'user', content: { type: 'text', text: 'Thanks' } },
+        { role: 'assistant', content: '' },
+      ]);
+      const params = provider.transformParams(
+        { max_tokens: 1024 },
+        { params: { model: 'claude-sonnet-4-20250514', system: 'You are a calculator.' } },
+      );
+      expect(params).toEqual({
+        model: 'claude-sonnet-4-20250514',
+        max_tokens: 1024,
+        system: 'You are a calculator.\n\nBe concise.',
+        messages: [
+          { role: 'user', content: [{ type: 'text', text: 'What is 27 * 453?' }] },
+          { role: 'assistant', content: [{ type: 'text', text: '12,231' }] },
+          { role: 'user', content: [{ type: 'text', text: 'Thanks' }] },
+        ],
+      });
+    });
+
+    it('should append the system messages to the system content blocks', () => {
+      const provider = createProvider();
+      provider.injectGetMessages(() => [
+        { role: 'system', content: 'Be concise.' },
+        { role: 'user', content: 'Hello' },
+      ]);
+      const params = provider.transformParams(
+        { system: [{ type: 'text', text: 'You are a calculator.' }] },
+        {},
+      );
+      expect(params.system).toEqual([
+        { type: 'text', text: 'You are a calculator.' },
+        { type: 'text', text: 'Be concise.' },
+      ]);
+    });
+
+    it('should not set system when there is no system prompt', () => {
+      const provider = createProvider();
+      provider.injectGetMessages(() => [{ role: 'user', content: 'Hello' }]);
+      expect(provider.transformParams({}, {})).toEqual({
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'Hello' }] }],
+      });
+    });
+
+    it('should convert the multimodal content parts to content blocks', () => {
+      const provider = createProvider();
+      const toolResult = { type: 'tool_result', tool_use_id: 'toolu_1', content: 'sunny' };
+      provider.injectGetMessages(() => [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Compare them' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+            {
+              type: 'file',
+              file: { filename: 'report.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' },
+            },
+            { type: 'file', file: { file_id: 'file_1' } },
+            toolResult as any,
+          ],
+        },
+      ]);
+      expect(provider.transformParams({}, {}).messages).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Compare them' },
+            {
+              type: 'image',
+              source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' },
+            },
+            { type: 'image', source: { type: 'url', url: 'https://example.com/cat.png' } },
+            {
+              type: 'document',
+              source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' },
+            },
+            { type: 'document', source: { type: 'file', file_id: 'file_1' } },
+            toolResult,
+          ],
+        },
+      ]);
+    });
+
+    it('should reject the audio content parts', () => {
+      const provider = createProvider();
+      provider.injectGetMessages(() => [
+        {
+          role: 'user',
+          content: [{ type: 'input_audio', input_audio: { data: 'SUQz', format: 'mp3' } }],
+        },
+      ]);
+      expect(() => provider.transformParams({}, {})).toThrow(
+        'content part [input_audio] is not supported by Anthropic',
+      );
+      const onError = jest.fn();
+      provider.sendRequest({}, { onUpdate: jest.fn(), onSuccess: jest.fn(), onError });
+      expect(onError).toHaveBeenCalledWith(
+        new Error('content part [input_audio] is not supported by Anthropic'),
+      );
+    });
+  });
+
+  it('should transformLocalMessage work successfully', () => {
+    const messages = [{ role: 'user', content: 'Hello' }];
+    expect(createProvider().transformLocalMessage({ messages })).toEqual(messages);
+    expect(createProvider().transformLocalMessage({})).toEqual([]);
+  });
+
+  describe('transformMessage', () => {
+    it('should render the recorded thinking stream', async () => {
+      const provider = createProvider();
+      const chunks = await parseStreamFixture(anthropicThinkingStream);
+      const contents: string[] = [];
+      let message: XModelMessage | undefined;
+      chunks.forEach((chunk) => {
+        message = provider.transformMessage({
+          originMessage: message,
+          chunk,
+          chunks: [],
+          status: 'updating',
+          responseHeaders: streamHeaders,
+        });
+        contents.push(message.content as string);
+      });
+      message = provider.transformMessage({
+        originMessage: message,
+        chunk: undefined as any,
+        chunks,
+        status: 'success',
+        responseHeaders: streamHeaders,
+      });
+
+      expect(contents).toContain('\n\n<think>\n\nThe user asks for 27 * 453.');
+      expect(contents).toContain('\n\n<think>\n\nThe user asks for 27 * 453. 27 * 453 = 12231.');
+      expect(message).toEqual({
+        role: 'assistant',
+        content:
+          '\n\n<think status="done">\n\nThe user asks for 27 * 453. 27 * 453 = 12231.\n\n</think>\n\n27 * 453 = **12,231**',
+      });
+    });
+
+    it('should render the non-streaming message', () => {
+      const provider = createProvider();
+      expect(
+        provider.transformMessage({
+          chunk: anthropicMessage as any,
+          chunks: [],
+          status: 'success',
+          responseHeaders: jsonHeaders,
+        }),
+      ).toEqual({
+        role: 'assistant',
+        content:
+          '\n\n<think status="done">\n\nThe user asks for 27 * 453. 27 * 453 = 12231.\n\n</think>\n\n27 * 453 = **12,231**',
+      });
+    });
+
+    it('should not repeat the non-streaming message when the request succeeds', () => {
+      const provider = createProvider();
+      const message = {
+        role: 'assistant',
+        content: [{ type: 'text', text: 'Hello' }],
+      };
+      const originMessage = provider.transformMessage({
+        chunk: message as any,
+        chunks: [],
+        status: 'updating',
+        responseHeaders: jsonHeaders,
+      });
+      expect(
+        provider.transformMessage({
+          originMessage,
+          chunk: undefined as any,
+          chunks: [message as any],
+          status: 'success',
+          responseHeaders: jsonHeaders,
+        }),
+      ).toEqual({ role: 'assistant', content: 'Hello' });
+    });
+
+    it('should render the text without thinking', () => {
+      const provider = createProvider();
+      const result = provider.transformMessage({
+        originMessage: { role: 'assistant', content: 'Hello' },
+        chunk: {
+          data: '{"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":" world"}}',
+        },
+        chunks: [],
+        status: 'updating',
+        responseHeaders: streamHeaders,
+      });
+      expect(result).toEqual({ role: 'assistant', content: 'Hello world' });
+    });
+
+    it('should not throw error with invalid JSON or error event', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const provider = createProvider();
+      expect(
+        provider.transformMessage({
+          originMessage: { role: 'assistant', content: 'Hello' },
+          chunk: { data: 'invalid json' },
+          chunks: [],
+          status: 'updating',
+          responseHeaders: streamHeaders,
+        }),
+      ).toEqual({ role: 'assistant', content: 'Hello' });
+      provider.transformMessage({
+        chunk: {
+          data: '{"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}',
+        },
+        chunks: [],
+        status: 'updating',
+        responseHeaders: streamHeaders,
+      });
+      expect(consoleSpy).toHaveBeenCalledTimes(2);
+      consoleSpy.mockRestore();
+    });
+  });
+});
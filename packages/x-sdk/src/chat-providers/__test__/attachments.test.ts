@@ -0,0 +1,109 @@
+import { attachmentsToContentParts, attachmentToContentPart } from '../../chat-providers';
+
+const pngBase64 = 'iVBORw0KGgo=';
+const createFile = (base64: string, type: string) =>
+  new Blob([Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))], { type });
+
+describe('attachments', () => {
+  it('should convert the pasted image to the base64 data URL', async () => {
+    expect(
+      await attachmentToContentPart({
+        uid: 'rc-upload-1',
+        name: 'screenshot.png',
+        originFileObj: createFile(pngBase64, 'image/png'),
+      }),
+    ).toEqual({
+      type: 'image_url',
+      image_url: { url: `data:image/png;base64,${pngBase64}` },
+    });
+  });
+
+  it('should use the uploaded URL of the image', async () => {
+    const attachment = {
+      name: 'cat.png',
+      type: 'image/png',
+      status: 'done',
+      url: 'https://example.com/cat.png',
+      originFileObj: createFile(pngBase64, 'image/png'),
+    };
+    expect(await attachmentToContentPart(attachment, { imageDetail: 'low' })).toEqual({
+      type: 'image_url',
+      image_url: { url: 'https://example.com/cat.png', detail: 'low' },
+    });
+    expect(await attachmentToContentPart(attachment, { mode: 'base64' })).toEqual({
+      type: 'image_url',
+      image_url: { url: `data:image/png;base64,${pngBase64}` },
+    });
+    expect(
+      await attachmentToContentPart(
+        { ...attachment, url: undefined, response: { url: 'https://cdn.example.com/cat.png' } },
+        { getURL: (item) => item.response?.url },
+      ),
+    ).toEqual({
+      type: 'image_url',
+      image_url: { url: 'https://cdn.example.com/cat.png' },
+    });
+  });
+
+  it('should convert the audio and file attachments', async () => {
+    expect(
+      await attachmentToContentPart({
+        name: 'voice.mp3',
+        type: 'audio/mpeg',
+        originFileObj: createFile('SUQz', 'audio/mpeg'),
+      }),
+    ).toEqual({ type: 'input_audio', input_audio: { data: 'SUQz', format: 'mp3' } });
+    expect(
+      await attachmentToContentPart({
+        name: 'report.pdf',
+        type: 'application/pdf',
+        originFileObj: createFile('JVBERi0=', 'application/pdf'),
+      }),
+    ).toEqual({
+      type: 'file',
+      file: { filename: 'report.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' },
+    });
+  });
+
+  it('should download the uploaded file without the original file', async () => {
+    const originalFetch = global.fetch;
+    global.fetch = jest.fn(async () => ({
+      blob: async () => createFile('JVBERi0=', 'application/pdf'),
+    })) as any;
+    expect(
+      await attachmentToContentPart({
+        name: 'report.pdf',
+        type: 'application/pdf',
+        url: 'https://example.com/report.pdf',
+      }),
+    ).toEqual({
+      type: 'file',
+      file: { filename: 'report.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' },
+    });
+    expect(global.fetch).toHaveBeenCalledWith('https://example.com/report.pdf');
+    global.fetch = originalFetch;
+  });
+
+  it('should throw error without the file or url', async () => {
+    await expect(attachmentToContentPart({ name: 'report.pdf' })).rejects.toThrow(
+      'attachment [report.pdf] has no file or url',
+    );
+  });
+
+  it('should convert the attachments with the text', async () => {
+    expect(
+      await attachmentsToContentParts(
+        [
+          { name: 'a.png', type: 'image/png', url: 'https://example.com/a.png' },
+          { name: 'b.png', type: 'image/png', url: 'https://example.com/b.png' },
+        ],
+        { text: 'What is the difference?' },
+      ),
+    ).toEqual([
+      { type: 'text', text: 'What is the difference?' },
+      { type: 'image_url', image_url: { url: 'https://example.com/a.png' } },
+      { type: 'image_url', image_url: { url: 'https://example.com/b.png' } },
+    ]);
+    expect(await attachmentsToContentParts([])).toEqual([]);
+  });
+});
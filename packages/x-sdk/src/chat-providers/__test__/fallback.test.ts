@@ -0,0 +1,186 @@
+import { act, renderHook, sleep } from '../../../tests/utils';
+import { FallbackChatProvider, OpenAIChatProvider } from '../../chat-providers';
+import useXChat from '../../x-chat';
+import XRequest from '../../x-request';
+
+const encodeEvent = (content: string) =>
+  new TextEncoder().encode(
+    `data: ${JSON.stringify({ choices: [{ delta: { role: 'assistant', content } }] })}\n\n`,
+  );
+
+function createSSEResponse(content: string, keepOpen = false) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'content-type': 'text/event-stream' }),
+    body: new ReadableStream({
+      start(controller) {
+        controller.enqueue(encodeEvent(content));
+        if (!keepOpen) {
+          controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
+          controller.close();
+        }
+      },
+    }),
+  } as unknown as Response;
+}
+
+const createErrorResponse = (status: number) =>
+  ({ ok: false, status, headers: new Headers() }) as unknown as Response;
+
+const createProvider = (fetch: jest.Mock, options = {}) =>
+  new OpenAIChatProvider({
+    request: XRequest('http://localhost:3000/chat', { manual: true, fetch, ...options }),
+  });
+
+function renderChat(provider: FallbackChatProvider) {
+  const { result } = renderHook(() => useXChat({ provider }));
+  act(() => {
+    result.current!.onRequest({ messages: [{ role: 'user', content: 'Hello' }] });
+  });
+  return result;
+}
+
+describe('FallbackChatProvider test', () => {
+  it('should throw error without providers', () => {
+    expect(() => new FallbackChatProvider({ providers: {} })).toThrow('providers is required');
+  });
+
+  it('should try the next provider when the status can fall back', async () => {
+    const primaryFetch = jest.fn(async () => createErrorResponse(503));
+    const backupFetch = jest.fn(async () => createSSEResponse('Hi from backup'));
+    const provider = new FallbackChatProvider({
+      providers: { primary: createProvider(primaryFetch), backup: createProvider(backupFetch) },
+    });
+    const result = renderChat(provider);
+    await sleep(100);
+
+    expect(primaryFetch).toHaveBeenCalledTimes(1);
+    expect(backupFetch).toHaveBeenCalledTimes(1);
+    expect(JSON.parse((backupFetch.mock.calls[0] as any[])[1].body).messages).toEqual([
+      { role: 'user', content: 'Hello' },
+    ]);
+    expect(result.current!.messages[1]).toEqual(
+      expect.objectContaining({
+        message: { role: 'assistant', content: 'Hi from backup' },
+        status: 'success',
+        extraInfo: expect.objectContaining({
+          provider: 'backup',
+          fallbacks: [{ provider: 'primary', error: 'Fetch failed with status 503' }],
+        }),
+      }),
+    );
+    expect(result.current!.isRequesting).toBe(false);
+
+    // the next request starts from the primary provider
+    primaryFetch.mockImplementation(async () => createSSEResponse('Hi from primary'));
+    act(() => {
+      result.current!.onRequest({ messages: [{ role: 'user', content: 'Hello again' }] });
+    });
+    await sleep(100);
+    expect(result.current!.messages[3].extraInfo).toEqual(
+      expect.not.objectContaining({ fallbacks: expect.anything() }),
+    );
+    expect(result.current!.messages[3].extraInfo).toEqual(
+      expect.objectContaining({ provider: 'primary' }),
+    );
+  });
+
+  it('should keep the state of every request when the requests overlap', async () => {
+    // the first request falls back, the second request is answered by the primary provider later
+    const primaryFetch = jest
+      .fn()
+      .mockImplementationOnce(async () => createErrorResponse(503))
+      .mockImplementationOnce(async () => {
+        // a plain timer, `sleep` would open an act() scope inside the request
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return createSSEResponse('Hi from primary');
+      });
+    const backupFetch = jest.fn(async () => createSSEResponse('Hi from backup'));
+    const provider = new FallbackChatProvider({
+      providers: { primary: createProvider(primaryFetch), backup: createProvider(backupFetch) },
+    });
+    const result = renderChat(provider);
+    await act(async () => {
+      result.current!.onRequest({ messages: [{ role: 'user', content: 'Hello again' }] });
+    });
+    await sleep(200);
+
+    expect(primaryFetch).toHaveBeenCalledTimes(2);
+    expect(backupFetch).toHaveBeenCalledTimes(1);
+    const answers = result.current!.messages.filter((info) => info.message.role === 'assistant');
+    expect(answers.map(({ message, extraInfo }) => [message.content, extraInfo])).toEqual([
+      [
+        'Hi from backup',
+        expect.objectContaining({
+          provider: 'backup',
+          fallbacks: [{ provider: 'primary', error: 'Fetch failed with status 503' }],
+        }),
+      ],
+      ['Hi from primary', expect.not.objectContaining({ fallbacks: expect.anything() })],
+    ]);
+    expect(answers[1].extraInfo).toEqual(expect.objectContaining({ provider: 'primary' }));
+    expect(result.current!.isRequesting).toBe(false);
+  });
+
+  it('should discard the partial output when the stream times out', async () => {
+    const primaryFetch = jest.fn(async () => createSSEResponse('Hi from', true));
+    const backupFetch = jest.fn(async () => createSSEResponse('Hi from backup'));
+    const provider = new FallbackChatProvider({
+      providers: {
+        primary: createProvider(primaryFetch, { streamTimeout: 50 }),
+        backup: createProvider(backupFetch),
+      },
+    });
+    const result = renderChat(provider);
+    await sleep(200);
+
+    expect(backupFetch).toHaveBeenCalledTimes(1);
+    expect(result.current!.messages[1]).toEqual(
+      expect.objectContaining({
+        message: { role: 'assistant', content: 'Hi from backup' },
+        status: 'success',
+        extraInfo: expect.objectContaining({
+          provider: 'backup',
+          fallbacks: [{ provider: 'primary', error: 'StreamTimeoutError' }],
+        }),
+      }),
+    );
+  });
+
+  it('should not fall back on the errors that are not configured', async () => {
+    const primaryFetch = jest.fn(async () => createErrorResponse(401));
+    const backupFetch = jest.fn(async () => createSSEResponse('Hi from backup'));
+    const provider = new FallbackChatProvider({
+      providers: { primary: createProvider(primaryFetch), backup: createProvider(backupFetch) },
+    });
+    const result = renderChat(provider);
+    await sleep(100);
+
+    expect(backupFetch).not.toHaveBeenCalled();
+    // there is no assistant message without requestPlaceholder
+    expect(result.current!.messages).toHaveLength(1);
+    expect(result.current!.isRequesting).toBe(false);
+  });
+
+  it('should fall back by shouldFallback and report the error of the last provider', async () => {
+    const primaryFetch = jest.fn(async () => createErrorResponse(401));
+    const backupFetch = jest.fn(async () => createErrorResponse(503));
+    const shouldFallback = jest.fn(() => true);
+    const provider = new FallbackChatProvider({
+      providers: { primary: createProvider(primaryFetch), backup: createProvider(backupFetch) },
+      shouldFallback,
+    });
+    const result = renderChat(provider);
+    await sleep(100);
+
+    expect(shouldFallback).toHaveBeenCalledTimes(1);
+    expect(shouldFallback).toHaveBeenCalledWith(
+      new Error('Fetch failed with status 401'),
+      expect.objectContaining({ provider: 'primary', status: 401 }),
+    );
+    expect(backupFetch).toHaveBeenCalledTimes(1);
+    expect(result.current!.messages).toHaveLength(1);
+    expect(result.current!.isRequesting).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Recorded from `models/gemini-2.5-flash:streamGenerateContent?alt=sse` with `includeThoughts` enabled
+ * @link https://ai.google.dev/api/generate-content#method:-models.streamgeneratecontent
+ */
+export const geminiThinkingStream = `data: {"candidates": [{"content": {"parts": [{"text": "**Calculating the product**\\n\\nThe user asks for 27 * 453.","thought": true}],"role": "model"},"index": 0}],"usageMetadata": {"promptTokenCount": 12,"totalTokenCount": 40,"thoughtsTokenCount": 28},"modelVersion": "gemini-2.5-flash","responseId": "kHtfaPyGL9mYkdUPk4S4-Q4"}
+
+data: {"candidates": [{"content": {"parts": [{"text": "27 * 453"}],"role": "model"},"index": 0}],"usageMetadata": {"promptTokenCount": 12,"candidatesTokenCount": 5,"totalTokenCount": 45,"thoughtsTokenCount": 28},"modelVersion": "gemini-2.5-flash","responseId": "kHtfaPyGL9mYkdUPk4S4-Q4"}
+
+data: {"candidates": [{"content": {"parts": [{"text": " = **12,231**"}],"role": "model"},"finishReason": "STOP","index": 0}],"usageMetadata": {"promptTokenCount": 12,"candidatesTokenCount": 12,"totalTokenCount": 52,"thoughtsTokenCount": 28},"modelVersion": "gemini-2.5-flash","responseId": "kHtfaPyGL9mYkdUPk4S4-Q4"}
+
+`;
+
+/**
+ * Recorded stream that calls a declared function
+ */
+export const geminiFunctionCallStream = `data: {"candidates": [{"content": {"parts": [{"text": "Let me check the weather."}],"role": "model"},"index": 0}],"modelVersion": "gemini-2.5-flash"}
+
+data: {"candidates": [{"content": {"parts": [{"functionCall": {"name": "get_weather","args": {"city": "Hangzhou"}}}],"role": "model"},"finishReason": "STOP","index": 0}],"modelVersion": "gemini-2.5-flash"}
+
+`;
+
+/**
+ * Recorded stream that is stopped by the safety filter
+ */
+export const geminiSafetyStream = `data: {"candidates": [{"content": {"parts": [{"text": "Here is how"}],"role": "model"},"index": 0}],"modelVersion": "gemini-2.5-flash"}
+
+data: {"candidates": [{"content": {"parts": [{"text": ""}],"role": "model"},"finishReason": "SAFETY","index": 0,"safetyRatings": [{"category": "HARM_CATEGORY_DANGEROUS_CONTENT","probability": "HIGH","blocked": true}]}],"modelVersion": "gemini-2.5-flash"}
+
+`;
+
+/**
+ * Recorded from `streamGenerateContent` without `alt=sse`, the response is a JSON array
+ */
+export const geminiJSONArray = [
+  {
+    candidates: [
+      {
+        content: { parts: [{ text: 'Here is a cat:' }], role: 'model' },
+        index: 0,
+      },
+    ],
+  },
+  {
+    candidates: [
+      {
+        content: {
+          parts: [{ inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } }],
+          role: 'model',
+        },
+        finishReason: 'STOP',
+        index: 0,
+      },
+    ],
+  },
+];
+
+/**
+ * Recorded `generateContent` response of a blocked prompt
+ */
+export const geminiBlockedPrompt = {
+  promptFeedback: {
+    blockReason: 'SAFETY',
+    safetyRatings: [
+      { category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH', blocked: true },
+      { category: 'HARM_CATEGORY_HATE_SPEECH', probability: 'NEGLIGIBLE' },
+    ],
+  },
+  usageMetadata: { promptTokenCount: 8, totalTokenCount: 8 },
+  modelVersion: 'gemini-2.5-flash',
+};
@@ -0,0 +1,28 @@
+/**
+ * Recorded from Ollama `/api/chat` with `stream: true` and `think: true`
+ * @link https://github.com/ollama/ollama/blob/main/docs/api.md#generate-a-chat-completion
+ */
+export const ollamaThinkingStream = `{"model":"qwen3:0.6b","created_at":"2025-06-01T08:00:00.000Z","message":{"role":"assistant","content":"","thinking":"The user asks for 27 * 453."},"done":false}
+{"model":"qwen3:0.6b","created_at":"2025-06-01T08:00:00.050Z","message":{"role":"assistant","content":"","thinking":" 27 * 453 = 12231."},"done":false}
+{"model":"qwen3:0.6b","created_at":"2025-06-01T08:00:00.100Z","message":{"role":"assistant","content":"27 * 453"},"done":false}
+{"model":"qwen3:0.6b","created_at":"2025-06-01T08:00:00.150Z","message":{"role":"assistant","content":" = **12,231**"},"done":false}
+{"model":"qwen3:0.6b","created_at":"2025-06-01T08:00:00.200Z","message":{"role":"assistant","content":""},"done_reason":"stop","done":true,"total_duration":412345678,"load_duration":23456789,"prompt_eval_count":18,"prompt_eval_duration":34567890,"eval_count":42,"eval_duration":298765432}
+`;
+
+/**
+ * Recorded from Ollama `/api/chat` with `stream: false` and tools
+ */
+export const ollamaToolCallMessage = {
+  model: 'qwen3:0.6b',
+  created_at: '2025-06-01T08:00:00.000Z',
+  message: {
+    role: 'assistant',
+    content: '',
+    tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Hangzhou' } } }],
+  },
+  done_reason: 'stop',
+  done: true,
+  total_duration: 512345678,
+  prompt_eval_count: 120,
+  eval_count: 20,
+};
@@ -0,0 +1,64 @@
+/**
+ * Recorded from the OpenAI Chat Completions API with `stream: true` and two parallel tool calls
+ * @link https://platform.openai.com/docs/guides/function-calling#streaming
+ */
+export const openAIToolCallStream = `data: {"id":"chatcmpl-ToolCalls","object":"chat.completion.chunk","created":1750000000,"model":"gpt-4o-mini","choices":[{"index":0,"delta":{"role":"assistant","content":null,"tool_calls":[{"index":0,"id":"call_weather","type":"function","function":{"name":"get_weather","arguments":""}}],"refusal":null},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-ToolCalls","object":"chat.completion.chunk","created":1750000000,"model":"gpt-4o-mini","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"city\\": "}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-ToolCalls","object":"chat.completion.chunk","created":1750000000,"model":"gpt-4o-mini","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"Hangzhou\\"}"}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-ToolCalls","object":"chat.completion.chunk","created":1750000000,"model":"gpt-4o-mini","choices":[{"index":0,"delta":{"tool_calls":[{"index":1,"id":"call_time","type":"function","function":{"name":"get_time","arguments":""}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-ToolCalls","object":"chat.completion.chunk","created":1750000000,"model":"gpt-4o-mini","choices":[{"index":0,"delta":{"tool_calls":[{"index":1,"function":{"arguments":"{\\"timezone\\": \\"Asia/Shanghai\\"}"}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-ToolCalls","object":"chat.completion.chunk","created":1750000000,"model":"gpt-4o-mini","choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}]}
+
+data: [DONE]
+
+`;
+
+/**
+ * Recorded from the OpenAI Chat Completions API with `stream_options.include_usage` enabled,
+ * the usage is sent in the last chunk with empty choices
+ * @link https://platform.openai.com/docs/api-reference/chat-streaming
+ */
+export const openAIUsageStream = `data: {"id":"chatcmpl-Usage","object":"chat.completion.chunk","created":1750000000,"model":"o4-mini-2025-04-16","choices":[{"index":0,"delta":{"role":"assistant","content":""},"finish_reason":null}],"usage":null}
+
+data: {"id":"chatcmpl-Usage","object":"chat.completion.chunk","created":1750000000,"model":"o4-mini-2025-04-16","choices":[{"index":0,"delta":{"content":"27 * 453 = 12,231"},"finish_reason":null}],"usage":null}
+
+data: {"id":"chatcmpl-Usage","object":"chat.completion.chunk","created":1750000000,"model":"o4-mini-2025-04-16","choices":[{"index":0,"delta":{},"finish_reason":"stop"}],"usage":null}
+
+data: {"id":"chatcmpl-Usage","object":"chat.completion.chunk","created":1750000000,"model":"o4-mini-2025-04-16","choices":[],"usage":{"prompt_tokens":1536,"completion_tokens":212,"total_tokens":1748,"prompt_tokens_details":{"cached_tokens":1280,"audio_tokens":0},"completion_tokens_details":{"reasoning_tokens":192,"audio_tokens":0,"accepted_prediction_tokens":0,"rejected_prediction_tokens":0}}}
+
+data: [DONE]
+
+`;
+
+/**
+ * Recorded from the DeepSeek Chat Completions API without streaming, the cached prompt tokens are
+ * returned as `prompt_cache_hit_tokens`
+ * @link https://api-docs.deepseek.com/api/create-chat-completion
+ */
+export const deepSeekMessage = {
+  id: '930c60df-bf64-41c9-a88e-3ec75f81e00e',
+  object: 'chat.completion',
+  created: 1750000000,
+  model: 'deepseek-chat',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content: 'Hello! How can I help you today?' },
+      logprobs: null,
+      finish_reason: 'stop',
+    },
+  ],
+  usage: {
+    prompt_tokens: 16,
+    completion_tokens: 10,
+    total_tokens: 26,
+    prompt_cache_hit_tokens: 8,
+    prompt_cache_miss_tokens: 8,
+  },
+  system_fingerprint: 'fp_8802369eaa_prod0623_fp8_kvcache',
+};
@@ -0,0 +1,24 @@
+import XStream from '../../../x-stream';
+
+/**
+ * Parse the recorded stream fixture into the chunks received by the provider,
+ * the fixture is parsed as SSE without `transformStream`
+ */
+export async function parseStreamFixture<Output = any>(
+  fixture: string,
+  transformStream?: TransformStream<string, Output>,
+) {
+  const chunks: Output[] = [];
+  for await (const chunk of XStream<Output>({
+    readableStream: new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(fixture));
+        controller.close();
+      },
+    }),
+    transformStream,
+  })) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
@@ -0,0 +1,275 @@
+import { GeminiChatProvider } from '../../chat-providers';
+import XRequest from '../../x-request';
+import { XModelMessage } from '../types/model';
+import {
+  geminiBlockedPrompt,
+  geminiFunctionCallStream,
+  geminiJSONArray,
+  geminiSafetyStream,
+  geminiThinkingStream,
+} from './fixtures/gemini';
+import { parseStreamFixture } from './fixtures/utils';
+
+const baseURL = 'http://localhost:3000';
+
+const createProvider = () =>
+  new GeminiChatProvider({
+    request: XRequest(baseURL, {
+      manual: true,
+    }),
+  });
+
+const streamHeaders = new Headers();
+streamHeaders.set('content-type', 'text/event-stream');
+const jsonHeaders = new Headers();
+jsonHeaders.set('content-type', 'application/json');
+
+async function renderStream(fixture: string) {
+  const provider = createProvider();
+  const chunks = await parseStreamFixture(fixture);
+  const messages: XModelMessage[] = [];
+  let message: XModelMessage | undefined;
+  chunks.forEach((chunk) => {
+    message = provider.transformMessage({
+      originMessage: message,
+      chunk,
+      chunks: [],
+      status: 'updating',
+      responseHeaders: streamHeaders,
+    });
+    messages.push(message);
+  });
+  message = provider.transformMessage({
+    originMessage: message,
+    chunk: undefined as any,
+    chunks,
+    status: 'success',
+    responseHeaders: streamHeaders,
+  });
+  return { messages, message };
+}
+
+describe('GeminiChatProvider test', () => {
+  it('should initialize successfully', () => {
+    expect(createProvider()).not.toBeNull();
+  });
+
+  describe('transformParams', () => {
+    it('should convert messages to contents with user and model roles', () => {
+      const provider = createProvider();
+      provider.injectGetMessages(() => [
+        { role: 'system', content: 'Be concise.' },
+        { role: 'user', content: 'What is 27 * 453?' },
+        {
+          role: 'assistant',
+          content: '\n\n<think status="done">\n\nLet me calculate\n\n</think>\n\n12,231',
+        },
+        { role: 'user', content: { type: 'text', text: 'Thanks' } },
+        { role: 'assistant', content: '' },
+      ]);
+      const params = provider.transformParams(
+        { generationConfig: { temperature: 0.2 } },
+        {
+          params: {
+            systemInstruction: { parts: [{ text: 'You are a calculator.' }] },
+            messages: [],
+          },
+        },
+      );
+      expect(params).toEqual({
+        generationConfig: { temperature: 0.2 },
+        systemInstruction: { parts: [{ text: 'You are a calculator.' }, { text: 'Be concise.' }] },
+        contents: [
+          { role: 'user', parts: [{ text: 'What is 27 * 453?' }] },
+          { role: 'model', parts: [{ text: '12,231' }] },
+          { role: 'user', parts: [{ text: 'Thanks' }] },
+        ],
+      });
+    });
+
+    it('should send inline image parts, function calls and function responses', () => {
+      const provider = createProvider();
+      const imagePart = { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } };
+      provider.injectGetMessages(() => [
+        { role: 'user', content: [{ text: 'What is the weather here?' }, imagePart] as any },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            {
+              id: 'get_weather-0',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Hangzhou"}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'get_weather-0', content: '{"weather":"sunny"}' },
+        { role: 'tool', name: 'get_time', content: '12:00' },
+      ]);
+      expect(provider.transformParams({}, {}).contents).toEqual([
+        { role: 'user', parts: [{ text: 'What is the weather here?' }, imagePart] },
+        {
+          role: 'model',
+          parts: [{ functionCall: { name: 'get_weather', args: { city: 'Hangzhou' } } }],
+        },
+        {
+          role: 'user',
+          parts: [{ functionResponse: { name: 'get_weather', response: { weather: 'sunny' } } }],
+        },
+        {
+          role: 'user',
+          parts: [{ functionResponse: { name: 'get_time', response: { content: '12:00' } } }],
+        },
+      ]);
+    });
+  });
+
+  it('should convert the multimodal content parts to parts', () => {
+    const provider = createProvider();
+    provider.injectGetMessages(() => [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Compare them' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+          { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+          { type: 'input_audio', input_audio: { data: 'SUQz', format: 'mp3' } },
+          {
+            type: 'file',
+            file: { filename: 'report.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' },
+          },
+          { type: 'file', file: { file_id: 'files/abc' } },
+        ],
+      },
+    ]);
+    expect(provider.transformParams({}, {}).contents).toEqual([
+      {
+        role: 'user',
+        parts: [
+          { text: 'Compare them' },
+          { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } },
+          { fileData: { fileUri: 'https://example.com/cat.png' } },
+          { inlineData: { mimeType: 'audio/mp3', data: 'SUQz' } },
+          { inlineData: { mimeType: 'application/pdf', data: 'JVBERi0=' } },
+          { fileData: { fileUri: 'files/abc' } },
+        ],
+      },
+    ]);
+    provider.injectGetMessages(() => [
+      { role: 'user', content: [{ type: 'file', file: { filename: 'empty.pdf' } }] },
+    ]);
+    expect(() => provider.transformParams({}, {})).toThrow(
+      'file [empty.pdf] has no file data or file id',
+    );
+  });
+
+  it('should transformLocalMessage work successfully', () => {
+    const messages = [{ role: 'user', content: 'Hello' }];
+    expect(createProvider().transformLocalMessage({ messages })).toEqual(messages);
+    expect(createProvider().transformLocalMessage({})).toEqual([]);
+  });
+
+  describe('transformMessage', () => {
+    it('should render the thoughts and text of the stream', async () => {
+      const { messages, message } = await renderStream(geminiThinkingStream);
+      expect(messages[0].content).toBe(
+        '\n\n<think>\n\n**Calculating the product**\n\nThe user asks for 27 * 453.',
+      );
+      expect(message).toEqual({
+        role: 'assistant',
+        content:
+          '\n\n<think status="done">\n\n**Calculating the product**\n\nThe user asks for 27 * 453.\n\n</think>\n\n27 * 453 = **12,231**',
+        finish_reason: 'STOP',
+      });
+      expect(messages[messages.length - 1]).toEqual(message);
+    });
+
+    it('should collect the function calls', async () => {
+      const { message } = await renderStream(geminiFunctionCallStream);
+      expect(message).toEqual({
+        role: 'assistant',
+        content: 'Let me check the weather.',
+        finish_reason: 'STOP',
+        tool_calls: [
+          {
+            id: 'get_weather-0',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Hangzhou"}' },
+          },
+        ],
+      });
+    });
+
+    it('should expose the safety finish reason', async () => {
+      const { message } = await renderStream(geminiSafetyStream);
+      expect(message).toEqual({
+        role: 'assistant',
+        content: 'Here is how',
+        finish_reason: 'SAFETY',
+        safety_ratings: [
+          { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true },
+        ],
+      });
+    });
+
+    it('should expose the block reason of the prompt', () => {
+      const provider = createProvider();
+      expect(
+        provider.transformMessage({
+          chunk: geminiBlockedPrompt as any,
+          chunks: [],
+          status: 'updating',
+          responseHeaders: jsonHeaders,
+        }),
+      ).toEqual({
+        role: 'assistant',
+        content: '',
+        finish_reason: 'SAFETY',
+        block_reason: 'SAFETY',
+        safety_ratings: geminiBlockedPrompt.promptFeedback.safetyRatings,
+      });
+    });
+
+    it('should render the JSON array response with inline images', () => {
+      const provider = createProvider();
+      const updated = provider.transformMessage({
+        chunk: geminiJSONArray as any,
+        chunks: [],
+        status: 'updating',
+        responseHeaders: jsonHeaders,
+      });
+      const expected = {
+        role: 'assistant',
+        content: 'Here is a cat:\n\n![](data:image/png;base64,iVBORw0KGgo=)\n\n',
+        finish_reason: 'STOP',
+      };
+      expect(updated).toEqual(expected);
+      // the JSON response is delivered again on success, it should not be appended twice
+      expect(
+        provider.transformMessage({
+          originMessage: updated,
+          chunk: undefined as any,
+          chunks: [geminiJSONArray as any],
+          status: 'success',
+          responseHeaders: jsonHeaders,
+        }),
+      ).toEqual(expected);
+    });
+
+    it('should not throw error with invalid JSON', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const provider = createProvider();
+      expect(
+        provider.transformMessage({
+          originMessage: { role: 'assistant', content: 'Hello' },
+          chunk: { data: 'invalid json' },
+          chunks: [],
+          status: 'updating',
+          responseHeaders: streamHeaders,
+        }),
+      ).toEqual({ role: 'assistant', content: 'Hello' });
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { act, renderHook, sleep } from '../../../tests/utils';
+import { OllamaChatProvider } from '../../chat-providers';
+import useXChat from '../../x-chat';
+import XRequest from '../../x-request';
+import { ndjsonTransformStream } from '../../x-stream';
+import { XModelMessage, XOllamaParams, XOllamaResponse } from '../types/model';
+import { ollamaThinkingStream, ollamaToolCallMessage } from './fixtures/ollama';
+import { parseStreamFixture } from './fixtures/utils';
+
+const baseURL = 'http://localhost:11434/api/chat';
+
+const createProvider = (fetch?: typeof globalThis.fetch) =>
+  new OllamaChatProvider({
+    request: XRequest<XOllamaParams, XOllamaResponse>(baseURL, {
+      manual: true,
+      fetch,
+    }),
+  });
+
+const ndjsonHeaders = new Headers();
+ndjsonHeaders.set('content-type', 'application/x-ndjson');
+const jsonHeaders = new Headers();
+jsonHeaders.set('content-type', 'application/json');
+
+const expectedContent =
+  '\n\n<think status="done">\n\nThe user asks for 27 * 453. 27 * 453 = 12231.\n\n</think>\n\n27 * 453 = **12,231**';
+
+const expectedExtraInfo = {
+  model: 'qwen3:0.6b',
+  done_reason: 'stop',
+  total_duration: 412345678,
+  load_duration: 23456789,
+  prompt_eval_count: 18,
+  prompt_eval_duration: 34567890,
+  eval_count: 42,
+  eval_duration: 298765432,
+  metadata: {
+    model: 'qwen3:0.6b',
+    finishReason: 'stop',
+    usage: { promptTokens: 18, completionTokens: 42, totalTokens: 60 },
+  },
+};
+
+describe('OllamaChatProvider test', () => {
+  it('should initialize successfully', () => {
+    expect(createProvider()).not.toBeNull();
+  });
+
+  it('should transformParams work successfully', () => {
+    const provider = createProvider();
+    provider.injectGetMessages(() => [
+      { role: 'system', content: 'Be concise.' },
+      { role: 'user', content: { type: 'text', text: 'What is the weather?' } },
+      {
+        role: 'assistant',
+        content: '\n\n<think status="done">\n\nLet me check\n\n</think>\n\n',
+        tool_calls: [
+          {
+            id: 'get_weather-0',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Hangzhou"}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'get_weather-0', content: 'sunny' },
+    ]);
+    expect(
+      provider.transformParams({ stream: true }, { params: { model: 'qwen3:0.6b', think: true } }),
+    ).toEqual({
+      model: 'qwen3:0.6b',
+      think: true,
+      stream: true,
+      messages: [
+        { role: 'system', content: 'Be concise.' },
+        { role: 'user', content: 'What is the weather?' },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Hangzhou' } } }],
+        },
+        { role: 'tool', tool_call_id: 'get_weather-0', tool_name: 'get_weather', content: 'sunny' },
+      ],
+    });
+  });
+
+  it('should transformLocalMessage work successfully', () => {
+    const messages = [{ role: 'user', content: 'Hello' }];
+    expect(createProvider().transformLocalMessage({ messages })).toEqual(messages);
+    expect(createProvider().transformLocalMessage({})).toEqual([]);
+  });
+
+  it('should accumulate the NDJSON stream', async () => {
+    const provider = createProvider();
+    const chunks = await parseStreamFixture(
+      ollamaThinkingStream,
+      ndjsonTransformStream<XOllamaResponse>(),
+    );
+    let message: XModelMessage | undefined;
+    chunks.forEach((chunk) => {
+      message = provider.transformMessage({
+        originMessage: message,
+        chunk,
+        chunks: [],
+        status: 'updating',
+        responseHeaders: ndjsonHeaders,
+      });
+    });
+    expect(message).toEqual({ role: 'assistant', content: expectedContent });
+    expect(
+      provider.transformMessage({
+        originMessage: message,
+        chunk: undefined as any,
+        chunks,
+        status: 'success',
+        responseHeaders: ndjsonHeaders,
+      }),
+    ).toEqual({ role: 'assistant', content: expectedContent });
+
+    expect(
+      provider.transformExtraInfo({
+        chunk: chunks[0],
+        chunks: [],
+        status: 'updating',
+        responseHeaders: ndjsonHeaders,
+      }),
+    ).toBeUndefined();
+    expect(
+      provider.transformExtraInfo({
+        chunk: undefined as any,
+        chunks,
+        status: 'success',
+        responseHeaders: ndjsonHeaders,
+      }),
+    ).toEqual(expectedExtraInfo);
+  });
+
+  it('should collect the tool calls of the JSON response', () => {
+    const provider = createProvider();
+    const info = {
+      chunk: ollamaToolCallMessage as XOllamaResponse,
+      chunks: [],
+      status: 'updating' as const,
+      responseHeaders: jsonHeaders,
+    };
+    expect(provider.transformMessage(info)).toEqual({
+      role: 'assistant',
+      content: '',
+      tool_calls: [
+        {
+          id: 'get_weather-0',
+          type: 'function',
+          function: { name: 'get_weather', arguments: '{"city":"Hangzhou"}' },
+        },
+      ],
+    });
+    expect(provider.transformExtraInfo(info)).toEqual({
+      model: 'qwen3:0.6b',
+      done_reason: 'stop',
+      total_duration: 512345678,
+      prompt_eval_count: 120,
+      eval_count: 20,
+      metadata: {
+        model: 'qwen3:0.6b',
+        finishReason: 'stop',
+        usage: { promptTokens: 120, completionTokens: 20, totalTokens: 140 },
+      },
+    });
+  });
+
+  it('should work with useXChat against a stand-in server', async () => {
+    const fetch = jest.fn(
+      async () =>
+        ({
+          ok: true,
+          status: 200,
+          headers: ndjsonHeaders,
+          body: new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode(ollamaThinkingStream));
+              controller.close();
+            },
+          }),
+        }) as unknown as Response,
+    );
+    const provider = createProvider(fetch);
+    const { result } = renderHook(() => useXChat({ provider }));
+
+    act(() => {
+      result.current!.onRequest(
+        { messages: [{ role: 'user', content: 'What is 27 * 453?' }] },
+        { extraInfo: { feedback: 'like' } },
+      );
+    });
+    await sleep(100);
+
+    expect(JSON.parse((fetch.mock.calls[0] as any[])[1].body)).toEqual({
+      messages: [{ role: 'user', content: 'What is 27 * 453?' }],
+    });
+    expect(result.current!.isRequesting).toBe(false);
+    expect(result.current!.messages).toEqual([
+      expect.objectContaining({
+        message: { role: 'user', content: 'What is 27 * 453?' },
+        status: 'local',
+        extraInfo: { feedback: 'like' },
+      }),
+      expect.objectContaining({
+        message: { role: 'assistant', content: expectedContent },
+        status: 'success',
+        extraInfo: {
+          ...expectedExtraInfo,
+          metadata: {
+            ...expectedExtraInfo.metadata,
+            latency: expect.any(Number),
+            timeToFirstChunk: expect.any(Number),
+          },
+        },
+      }),
+    ]);
+    expect(result.current!.usage).toEqual({
+      promptTokens: 18,
+      completionTokens: 42,
+      totalTokens: 60,
+      reasoningTokens: 0,
+      cachedTokens: 0,
+    });
+  });
+});
@@ -1,10 +1,15 @@
+import { act, renderHook, sleep } from '../../../tests/utils';
 import { AnyObject } from '../../_util/type';
 import {
   DeepSeekChatProvider,
   DefaultChatProvider,
   OpenAIChatProvider,
 } from '../../chat-providers';
+import useXChat from '../../x-chat';
 import XRequest, { XRequestClass } from '../../x-request';
+import { XModelContentPart, XModelMessage } from '../types/model';
+import { deepSeekMessage, openAIToolCallStream, openAIUsageStream } from './fixtures/openai';
+import { parseStreamFixture } from './fixtures/utils';
 
 const baseURL = 'http://localhost:3000';
 
@@ -671,6 +676,108 @@ describe('OpenAiChatProvider test', () => {
       expect(result).toEqual({
         role: 'assistant',
         content: '',
+        tool_calls: [
+          {
+            id: 'call_123',
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              arguments: '{"location": "San Francisco, CA"}',
+            },
+          },
+        ],
+      });
+
+      // the non-streaming tool calls should not be appended twice on success
+      expect(
+        openAIProvider.transformMessage({
+          originMessage: result,
+          chunk: undefined as any,
+          chunks: [response],
+          status: 'success',
+          responseHeaders: jsonHeaders,
+        }).tool_calls,
+      ).toEqual(result.tool_calls);
+    });
+
+    it('should accumulate the streamed tool call fragments by index', async () => {
+      const openAIProvider = new OpenAIChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+      });
+      const chunks = await parseStreamFixture(openAIToolCallStream);
+      let message: XModelMessage | undefined;
+      chunks.forEach((chunk) => {
+        message = openAIProvider.transformMessage({
+          originMessage: message,
+          chunk,
+          chunks: [],
+          status: 'updating',
+          responseHeaders: headers,
+        });
+      });
+      message = openAIProvider.transformMessage({
+        originMessage: message,
+        chunk: undefined as any,
+        chunks,
+        status: 'success',
+        responseHeaders: headers,
+      });
+
+      expect(message).toEqual({
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          {
+            id: 'call_weather',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city": "Hangzhou"}' },
+          },
+          {
+            id: 'call_time',
+            type: 'function',
+            function: { name: 'get_time', arguments: '{"timezone": "Asia/Shanghai"}' },
+          },
+        ],
+      });
+    });
+
+    it('should transformExtraInfo return the metadata with usage when the request succeeds', async () => {
+      const openAIProvider = new OpenAIChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+      });
+      const chunks = await parseStreamFixture(openAIUsageStream);
+      expect(
+        openAIProvider.transformExtraInfo({
+          chunk: chunks[1],
+          chunks: [],
+          status: 'updating',
+          responseHeaders: headers,
+        }),
+      ).toBeUndefined();
+      expect(
+        openAIProvider.transformExtraInfo({
+          chunk: undefined as any,
+          chunks,
+          status: 'success',
+          responseHeaders: headers,
+        }),
+      ).toEqual({
+        metadata: {
+          id: 'chatcmpl-Usage',
+          model: 'o4-mini-2025-04-16',
+          finishReason: 'stop',
+          usage: {
+            promptTokens: 1536,
+            completionTokens: 212,
+            totalTokens: 1748,
+            reasoningTokens: 192,
+            cachedTokens: 1280,
+          },
+        },
       });
     });
 
@@ -728,7 +835,265 @@ describe('OpenAiChatProvider test', () => {
     });
   });
 
+  describe('multimodal content', () => {
+    it('should send the content parts and convert the single content object to an array', () => {
+      const provider = new OpenAIChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+      });
+      const content: XModelContentPart[] = [
+        { type: 'text', text: 'What is in the screenshot?' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+      ];
+      provider.injectGetMessages(() => [
+        { role: 'user', content },
+        { role: 'assistant', content: 'A cat.' },
+        { role: 'user', content: { type: 'text', text: 'Thanks' } },
+      ]);
+      expect(provider.transformParams({}, {}).messages).toEqual([
+        { role: 'user', content },
+        { role: 'assistant', content: 'A cat.' },
+        { role: 'user', content: [{ type: 'text', text: 'Thanks' }] },
+      ]);
+    });
+
+    it('should render the content parts and images of the response', () => {
+      const provider = new OpenAIChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+      });
+      const message = provider.transformMessage({
+        chunk: {
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: [{ type: 'text', text: 'Here is a cat:' }],
+                images: [
+                  { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+                ],
+              },
+            },
+          ],
+        } as any,
+        chunks: [],
+        status: 'success',
+        responseHeaders: jsonHeaders,
+      });
+      expect(message).toEqual({
+        role: 'assistant',
+        content: 'Here is a cat:\n\n![](data:image/png;base64,iVBORw0KGgo=)\n\n',
+      });
+    });
+  });
+
+  describe('reasoning', () => {
+    const reasoningChunks = [
+      { data: '{"choices":[{"delta":{"role":"assistant","reasoning":"Let me"}}]}' },
+      { data: '{"choices":[{"delta":{"reasoning":" calculate."}}]}' },
+      { data: '{"choices":[{"delta":{"content":"12,231"}}]}' },
+    ];
+
+    const renderChunks = (provider: OpenAIChatProvider) => {
+      let message: XModelMessage | undefined;
+      const messages: XModelMessage[] = [];
+      reasoningChunks.forEach((chunk) => {
+        message = provider.transformMessage({
+          originMessage: message,
+          chunk,
+          chunks: [],
+          status: 'updating',
+          responseHeaders: headers,
+        });
+        messages.push(message);
+      });
+      return messages;
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should set the reasoning deltas to the reasoning field with timing', () => {
+      const now = jest.spyOn(Date, 'now');
+      const provider = new OpenAIChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+      });
+      now.mockReturnValue(1000);
+      const [thinking] = renderChunks(provider).slice(0, 1);
+      expect(thinking).toEqual({
+        role: 'assistant',
+        content: '',
+        reasoning: 'Let me',
+        reasoning_status: 'thinking',
+        reasoning_start_time: 1000,
+      });
+
+      now.mockReturnValueOnce(1000).mockReturnValueOnce(1500).mockReturnValueOnce(3000);
+      expect(renderChunks(provider)[2]).toEqual({
+        role: 'assistant',
+        content: '12,231',
+        reasoning: 'Let me calculate.',
+        reasoning_status: 'done',
+        reasoning_start_time: 1000,
+        reasoning_duration: 2000,
+      });
+    });
+
+    it('should render the reasoning with think tags when reasoningFormat is tag', () => {
+      const provider = new OpenAIChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+        reasoningFormat: 'tag',
+      });
+      expect(renderChunks(provider)[2]).toEqual({
+        role: 'assistant',
+        content: '\n\n<think status="done">\n\nLet me calculate.\n\n</think>\n\n12,231',
+      });
+    });
+
+    it('should read the reasoning_content of the non-streaming response', () => {
+      const provider = new OpenAIChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+      });
+      expect(
+        provider.transformMessage({
+          chunk: {
+            choices: [
+              {
+                message: {
+                  role: 'assistant',
+                  content: '12,231',
+                  reasoning_content: 'Let me calculate.',
+                },
+              },
+            ],
+          } as any,
+          chunks: [],
+          status: 'success',
+          responseHeaders: jsonHeaders,
+        }),
+      ).toEqual({
+        role: 'assistant',
+        content: '12,231',
+        reasoning: 'Let me calculate.',
+        reasoning_status: 'done',
+        reasoning_start_time: expect.any(Number),
+      });
+    });
+
+    it('should not send the reasoning to the model', () => {
+      const provider = new OpenAIChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+      });
+      provider.injectGetMessages(() => [
+        { role: 'user', content: 'What is 27 * 453?' },
+        {
+          role: 'assistant',
+          content: '12,231',
+          reasoning: 'Let me calculate.',
+          reasoning_status: 'done',
+          reasoning_start_time: 1000,
+          reasoning_duration: 2000,
+        },
+      ]);
+      expect(provider.transformParams({}, {}).messages).toEqual([
+        { role: 'user', content: 'What is 27 * 453?' },
+        { role: 'assistant', content: '12,231' },
+      ]);
+    });
+  });
+
   describe('Integration tests', () => {
+    it('should send the history of every useXChat sharing the provider', async () => {
+      const fetch = jest.fn(async () => ({
+        ok: true,
+        status: 200,
+        headers,
+        body: new ReadableStream({
+          start(controller) {
+            const event = JSON.stringify({ choices: [{ delta: { content: 'Hi' } }] });
+            controller.enqueue(new TextEncoder().encode(`data: ${event}\n\ndata: [DONE]\n\n`));
+            controller.close();
+          },
+        }),
+      }));
+      const openAIProvider = new OpenAIChatProvider({
+        request: XRequest(baseURL, { manual: true, fetch: fetch as any }),
+      });
+      const { result: result1 } = renderHook(() => useXChat({ provider: openAIProvider }));
+      const { result: result2 } = renderHook(() => useXChat({ provider: openAIProvider }));
+
+      act(() => {
+        result1.current!.onRequest({ messages: [{ role: 'user', content: 'Hello' }] });
+        result2.current!.onRequest({ messages: [{ role: 'user', content: 'Who are you?' }] });
+      });
+      await sleep(100);
+
+      const getBody = (index: number) => JSON.parse((fetch.mock.calls[index] as any[])[1].body);
+      expect(getBody(0).messages).toEqual([{ role: 'user', content: 'Hello' }]);
+      expect(getBody(1).messages).toEqual([{ role: 'user', content: 'Who are you?' }]);
+      expect(result2.current!.messages.map((info) => info.message)).toEqual([
+        { role: 'user', content: 'Who are you?' },
+        { role: 'assistant', content: 'Hi' },
+      ]);
+    });
+
+    it('should send the tool calls and tool results in the history', () => {
+      const openAIProvider = new OpenAIChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+      });
+      const messages: XModelMessage[] = [
+        { role: 'user', content: 'What is the weather like in Hangzhou?' },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            {
+              id: 'call_weather',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city": "Hangzhou"}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_weather', content: '{"weather": "sunny"}' },
+      ];
+      openAIProvider.injectGetMessages(() => messages);
+      const tools = [
+        {
+          type: 'function' as const,
+          function: {
+            name: 'get_weather',
+            description: 'Get the weather of the city',
+            parameters: {
+              type: 'object',
+              properties: { city: { type: 'string' } },
+              required: ['city'],
+            },
+          },
+        },
+      ];
+
+      expect(
+        openAIProvider.transformParams({}, { params: { model: 'gpt-4o-mini', tools } }),
+      ).toEqual({
+        model: 'gpt-4o-mini',
+        tools,
+        messages,
+      });
+    });
+
     it('should handle complete conversation flow', () => {
       const openAIProvider = new OpenAIChatProvider({
         request: XRequest(baseURL, {
@@ -993,6 +1358,104 @@ describe('DeepSeekChatProvider test', () => {
       });
     });
 
+    it('should transformExtraInfo return the cached tokens of DeepSeek', () => {
+      const provider = new DeepSeekChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+      });
+      expect(
+        provider.transformExtraInfo({
+          chunk: undefined as any,
+          chunks: [deepSeekMessage as any],
+          status: 'success',
+          responseHeaders: jsonHeaders,
+        }),
+      ).toEqual({
+        metadata: {
+          id: '930c60df-bf64-41c9-a88e-3ec75f81e00e',
+          model: 'deepseek-chat',
+          finishReason: 'stop',
+          usage: { promptTokens: 16, completionTokens: 10, totalTokens: 26, cachedTokens: 8 },
+        },
+      });
+    });
+
+    it('should set reasoning_content to the reasoning field when reasoningFormat is field', () => {
+      const now = jest.spyOn(Date, 'now');
+      const provider = new DeepSeekChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+        reasoningFormat: 'field',
+      });
+      let message: XModelMessage | undefined;
+      now.mockReturnValueOnce(1000).mockReturnValueOnce(2500);
+      [
+        {
+          data: '{"choices":[{"delta":{"role":"assistant","reasoning_content":"<think> is a tag"}}]}',
+        },
+        { data: '{"choices":[{"delta":{"role":"assistant","reasoning_content":" of HTML."}}]}' },
+      ].forEach((chunk) => {
+        message = provider.transformMessage({
+          originMessage: message,
+          chunk,
+          chunks: [],
+          status: 'updating',
+          responseHeaders: headers,
+        });
+      });
+      // the stream ends without answer, the reasoning is done when the request succeeds
+      now.mockReturnValueOnce(4000);
+      message = provider.transformMessage({
+        originMessage: message,
+        chunk: undefined as any,
+        chunks: [],
+        status: 'success',
+        responseHeaders: headers,
+      });
+      expect(message).toEqual({
+        role: 'assistant',
+        content: '',
+        reasoning: '<think> is a tag of HTML.',
+        reasoning_status: 'done',
+        reasoning_start_time: 1000,
+        reasoning_duration: 3000,
+      });
+      now.mockRestore();
+    });
+
+    it('should keep the answer that contains think tags when reasoningFormat is field', () => {
+      const provider = new DeepSeekChatProvider({
+        request: XRequest(baseURL, {
+          manual: true,
+        }),
+        reasoningFormat: 'field',
+      });
+      const result = provider.transformMessage({
+        originMessage: {
+          role: 'assistant',
+          content: 'Use <think>',
+          reasoning: 'Explain the tag',
+          reasoning_status: 'done',
+          reasoning_start_time: 1000,
+          reasoning_duration: 200,
+        },
+        chunk: { data: '{"choices":[{"delta":{"role":"assistant","content":" to wrap it."}}]}' },
+        chunks: [],
+        status: 'updating',
+        responseHeaders: headers,
+      });
+      expect(result).toEqual({
+        role: 'assistant',
+        content: 'Use <think> to wrap it.',
+        reasoning: 'Explain the tag',
+        reasoning_status: 'done',
+        reasoning_start_time: 1000,
+        reasoning_duration: 200,
+      });
+    });
+
     it('should handle think tag completion', () => {
       const provider = new DeepSeekChatProvider({
         request: XRequest(baseURL, {
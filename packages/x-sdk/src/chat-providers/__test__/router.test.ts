@@ -0,0 +1,231 @@
+import { act, renderHook, sleep } from '../../../tests/utils';
+import { DeepSeekChatProvider, OpenAIChatProvider, RouterChatProvider } from '../../chat-providers';
+import useXChat from '../../x-chat';
+import XRequest from '../../x-request';
+
+function createSSEResponse(content: string) {
+  const event = JSON.stringify({ choices: [{ delta: { role: 'assistant', content } }] });
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'content-type': 'text/event-stream' }),
+    body: new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(`data: ${event}\n\ndata: [DONE]\n\n`));
+        controller.close();
+      },
+    }),
+  } as unknown as Response;
+}
+
+const createProviders = () => {
+  const openAIFetch = jest.fn(async () => createSSEResponse('Hi from OpenAI'));
+  const deepSeekFetch = jest.fn(async () => createSSEResponse('Hi from DeepSeek'));
+  return {
+    openAIFetch,
+    deepSeekFetch,
+    providers: {
+      'gpt-4o': new OpenAIChatProvider({
+        request: XRequest('http://localhost:3000/openai', {
+          manual: true,
+          fetch: openAIFetch,
+          params: { model: 'gpt-4o' },
+        }),
+      }),
+      'deepseek-chat': new DeepSeekChatProvider({
+        request: XRequest('http://localhost:3000/deepseek', {
+          manual: true,
+          fetch: deepSeekFetch,
+          params: { model: 'deepseek-chat' },
+        }),
+      }),
+    },
+  };
+};
+
+const getBody = (fetch: jest.Mock, index = 0) => JSON.parse(fetch.mock.calls[index][1].body);
+
+describe('RouterChatProvider test', () => {
+  it('should throw error when the default provider is not found', () => {
+    expect(() => new RouterChatProvider({ providers: {} })).toThrow(
+      'provider [undefined] is not found',
+    );
+    expect(
+      () =>
+        new RouterChatProvider({ providers: createProviders().providers, defaultProvider: 'o3' }),
+    ).toThrow('provider [o3] is not found');
+  });
+
+  it('should switch the provider by model and share the history', async () => {
+    const { providers, openAIFetch, deepSeekFetch } = createProviders();
+    const provider = new RouterChatProvider({ providers });
+    const { result } = renderHook(() => useXChat({ provider }));
+
+    await act(async () => {
+      result.current!.onRequest({ messages: [{ role: 'user', content: 'Hello' }] });
+    });
+    await sleep(100);
+    expect(provider.activeKey).toBe('gpt-4o');
+
+    await act(async () => {
+      result.current!.onRequest({
+        model: 'deepseek-chat',
+        messages: [{ role: 'user', content: 'Who are you?' }],
+      });
+    });
+    await sleep(100);
+
+    expect(openAIFetch).toHaveBeenCalledTimes(1);
+    expect(deepSeekFetch).toHaveBeenCalledTimes(1);
+    expect(getBody(deepSeekFetch)).toEqual({
+      model: 'deepseek-chat',
+      messages: [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi from OpenAI' },
+        { role: 'user', content: 'Who are you?' },
+      ],
+    });
+    expect(result.current!.messages.map(({ message, extraInfo }) => [message, extraInfo])).toEqual([
+      [{ role: 'user', content: 'Hello' }, undefined],
+      [
+        { role: 'assistant', content: 'Hi from OpenAI' },
+        expect.objectContaining({ provider: 'gpt-4o' }),
+      ],
+      [{ role: 'user', content: 'Who are you?' }, undefined],
+      [
+        { role: 'assistant', content: 'Hi from DeepSeek' },
+        expect.objectContaining({ provider: 'deepseek-chat' }),
+      ],
+    ]);
+    expect(result.current!.isRequesting).toBe(false);
+  });
+
+  it('should keep the provider of every request when the requests overlap', async () => {
+    const { providers, openAIFetch, deepSeekFetch } = createProviders();
+    // the OpenAI response arrives after the DeepSeek request is sent
+    openAIFetch.mockImplementation(async () => {
+      // a plain timer, `sleep` would open an act() scope inside the request
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return createSSEResponse('Hi from OpenAI');
+    });
+    const provider = new RouterChatProvider({ providers });
+    const { result } = renderHook(() => useXChat({ provider }));
+
+    await act(async () => {
+      result.current!.onRequest({ messages: [{ role: 'user', content: 'Hello' }] });
+      result.current!.onRequest({
+        model: 'deepseek-chat',
+        messages: [{ role: 'user', content: 'Who are you?' }],
+      });
+    });
+    await sleep(200);
+
+    expect(openAIFetch).toHaveBeenCalledTimes(1);
+    expect(deepSeekFetch).toHaveBeenCalledTimes(1);
+    expect(provider.activeKey).toBe('deepseek-chat');
+    const answers = result.current!.messages.filter((info) => info.message.role === 'assistant');
+    expect(answers.map(({ message, extraInfo }) => [message.content, extraInfo?.provider])).toEqual(
+      expect.arrayContaining([
+        ['Hi from OpenAI', 'gpt-4o'],
+        ['Hi from DeepSeek', 'deepseek-chat'],
+      ]),
+    );
+    expect(answers).toHaveLength(2);
+  });
+
+  it('should pick the provider by route and the default provider', async () => {
+    const { providers, openAIFetch, deepSeekFetch } = createProviders();
+    const route = jest.fn((params: any) =>
+      params.vendor === 'deepseek' ? 'deepseek-chat' : undefined,
+    );
+    const provider = new RouterChatProvider({ providers, route });
+    const { result } = renderHook(() => useXChat({ provider }));
+
+    await act(async () => {
+      result.current!.onRequest({
+        vendor: 'deepseek',
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+    });
+    await sleep(100);
+    // the history sent with the request
+    expect(route).toHaveBeenCalledWith(expect.objectContaining({ vendor: 'deepseek' }), {
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+    expect(deepSeekFetch).toHaveBeenCalledTimes(1);
+
+    provider.setDefaultProvider('deepseek-chat');
+    await act(async () => {
+      result.current!.onRequest({ model: 'unknown', messages: [{ role: 'user', content: 'Hi' }] });
+    });
+    await sleep(100);
+    expect(deepSeekFetch).toHaveBeenCalledTimes(2);
+    expect(openAIFetch).not.toHaveBeenCalled();
+  });
+
+  it('should route the local message and the request by the same history', async () => {
+    const { providers, openAIFetch, deepSeekFetch } = createProviders();
+    // switch to DeepSeek after the first answer
+    const route = jest.fn((_params: any, { messages }: { messages: any[] }) =>
+      messages.some((message) => message.role === 'assistant') ? 'deepseek-chat' : undefined,
+    );
+    const openAILocal = jest.spyOn(providers['gpt-4o'], 'transformLocalMessage');
+    const deepSeekLocal = jest.spyOn(providers['deepseek-chat'], 'transformLocalMessage');
+    const provider = new RouterChatProvider({ providers, route });
+    const { result } = renderHook(() => useXChat({ provider }));
+
+    await act(async () => {
+      result.current!.onRequest({ messages: [{ role: 'user', content: 'Hello' }] });
+    });
+    await sleep(100);
+    await act(async () => {
+      result.current!.onRequest({ messages: [{ role: 'user', content: 'Who are you?' }] });
+    });
+    await sleep(100);
+
+    expect(openAILocal).toHaveBeenCalledTimes(1);
+    expect(openAIFetch).toHaveBeenCalledTimes(1);
+    expect(deepSeekLocal).toHaveBeenCalledTimes(1);
+    expect(deepSeekLocal).toHaveBeenCalledWith(
+      expect.objectContaining({ messages: [{ role: 'user', content: 'Who are you?' }] }),
+    );
+    expect(deepSeekFetch).toHaveBeenCalledTimes(1);
+    expect(result.current!.messages.map(({ extraInfo }) => extraInfo?.provider)).toEqual([
+      undefined,
+      'gpt-4o',
+      undefined,
+      'deepseek-chat',
+    ]);
+  });
+
+  it('should register and unregister providers', async () => {
+    const { providers } = createProviders();
+    const { 'deepseek-chat': deepSeek, ...rest } = providers;
+    const provider = new RouterChatProvider({ providers: rest });
+    provider.injectGetMessages(() => [{ role: 'user', content: 'Hello' }]);
+
+    provider.register('deepseek-chat', deepSeek);
+    expect(provider.keys).toEqual(['gpt-4o', 'deepseek-chat']);
+    expect(provider.getProvider('deepseek-chat')).toBe(deepSeek);
+    expect(deepSeek.getMessages()).toEqual([{ role: 'user', content: 'Hello' }]);
+
+    const callbacks = { onUpdate: jest.fn(), onSuccess: jest.fn(), onError: jest.fn() };
+    provider.sendRequest({ model: 'deepseek-chat' }, callbacks);
+    expect(provider.request).toBe(deepSeek.request);
+    await sleep(100);
+    provider.unregister('deepseek-chat');
+    expect(provider.activeKey).toBe('gpt-4o');
+    expect(provider.keys).toEqual(['gpt-4o']);
+    expect(() => provider.unregister('gpt-4o')).toThrow(
+      'default provider [gpt-4o] can not be unregistered',
+    );
+    expect(() => provider.setDefaultProvider('deepseek-chat')).toThrow(
+      'provider [deepseek-chat] is not found',
+    );
+    provider.sendRequest({}, callbacks);
+    expect(provider.activeKey).toBe('gpt-4o');
+    await sleep(100);
+    expect(callbacks.onSuccess).toHaveBeenCalledTimes(2);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+});
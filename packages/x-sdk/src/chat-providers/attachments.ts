@@ -0,0 +1,128 @@
+import type { XModelAudioContentPart, XModelContentPart } from './types/model';
+
+/**
+ * 附件，与 `@ant-design/x` 中 Attachments 组件的 `Attachment` 以及 antd 的 `UploadFile` 兼容
+ */
+export interface XAttachment {
+  uid?: string;
+  name: string;
+  /**
+   * 文件的 MIME 类型
+   */
+  type?: string;
+  /**
+   * 上传完成后的地址
+   */
+  url?: string;
+  /**
+   * 原始文件，粘贴或选择的文件在上传前只有原始文件
+   */
+  originFileObj?: Blob;
+  status?: string;
+  /**
+   * 上传接口的返回值
+   */
+  response?: any;
+}
+
+export interface XAttachmentConvertOptions {
+  /**
+   * 图片的转换方式，`auto` 优先使用上传完成后的地址，`base64` 始终读取为 base64 data URL。
+   * 其他类型的附件接口只支持 base64，始终读取为 base64
+   * @default 'auto'
+   */
+  mode?: 'auto' | 'base64';
+  /**
+   * 获取上传完成后的地址，地址在上传接口的返回值中时可以自定义
+   * @default (attachment) => attachment.url
+   */
+  getURL?: (attachment: XAttachment) => string | undefined;
+  /**
+   * 图片的理解精度
+   */
+  imageDetail?: 'auto' | 'low' | 'high';
+}
+
+const AUDIO_FORMATS: Record<string, XModelAudioContentPart['input_audio']['format']> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+};
+
+function readAsDataURL(file: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * 读取附件内容，没有原始文件时从上传完成后的地址下载
+ */
+async function getAttachmentDataURL(attachment: XAttachment, url?: string) {
+  if (attachment.originFileObj) {
+    return readAsDataURL(attachment.originFileObj);
+  }
+  if (url) {
+    const response = await fetch(url);
+    return readAsDataURL(await response.blob());
+  }
+  throw new Error(`attachment [${attachment.name}] has no file or url`);
+}
+
+/**
+ * 将附件转换为 OpenAI 格式的消息内容，图片转换为 `image_url`，wav 和 mp3 音频转换为 `input_audio`，其他文件转换为 `file`
+ */
+export async function attachmentToContentPart(
+  attachment: XAttachment,
+  options: XAttachmentConvertOptions = {},
+): Promise<XModelContentPart> {
+  const { mode = 'auto', getURL = (item) => item.url, imageDetail } = options;
+  const url = getURL(attachment);
+  const mimeType = attachment.type || attachment.originFileObj?.type || '';
+
+  if (mimeType.startsWith('image/')) {
+    return {
+      type: 'image_url',
+      image_url: {
+        url: mode === 'auto' && url ? url : await getAttachmentDataURL(attachment, url),
+        ...(imageDetail ? { detail: imageDetail } : {}),
+      },
+    };
+  }
+
+  const dataURL = await getAttachmentDataURL(attachment, url);
+  const audioFormat = AUDIO_FORMATS[mimeType];
+  if (audioFormat) {
+    return {
+      type: 'input_audio',
+      // input_audio 只接受去掉 data URL 前缀的 base64 数据
+      input_audio: { data: dataURL.slice(dataURL.indexOf(',') + 1), format: audioFormat },
+    };
+  }
+  return {
+    type: 'file',
+    file: { filename: attachment.name, file_data: dataURL },
+  };
+}
+
+/**
+ * 将附件列表转换为 OpenAI 格式的消息内容，传入 text 时作为第一个文本内容
+ * @example
+ * const content = await attachmentsToContentParts(attachments, { text: 'What is in the image?' });
+ * onRequest({ messages: [{ role: 'user', content }] });
+ */
+export async function attachmentsToContentParts(
+  attachments: XAttachment[],
+  options: XAttachmentConvertOptions & { text?: string } = {},
+): Promise<XModelContentPart[]> {
+  const { text, ...convertOptions } = options;
+  const parts = await Promise.all(
+    attachments.map((attachment) => attachmentToContentPart(attachment, convertOptions)),
+  );
+  return text ? [{ type: 'text', text }, ...parts] : parts;
+}
@@ -1,5 +1,21 @@
-export type { ChatProviderConfig, TransformMessage } from './AbstractChatProvider';
+export type {
+  ChatProviderConfig,
+  ChatRequestCallbacks,
+  ChatRequestContext,
+  ChatRequestHandle,
+  ReasoningChatProviderConfig,
+  TransformMessage,
+} from './AbstractChatProvider';
 export { default as AbstractChatProvider } from './AbstractChatProvider';
+export { default as AnthropicChatProvider } from './AnthropicChatProvider';
+export type { XAttachment, XAttachmentConvertOptions } from './attachments';
+export { attachmentsToContentParts, attachmentToContentPart } from './attachments';
 export { default as DeepSeekChatProvider } from './DeepSeekChatProvider';
 export { default as DefaultChatProvider } from './DefaultChatProvider';
+export type { FallbackChatProviderConfig, XFallbackInfo } from './FallbackChatProvider';
+export { default as FallbackChatProvider } from './FallbackChatProvider';
+export { default as GeminiChatProvider } from './GeminiChatProvider';
+export { default as OllamaChatProvider } from './OllamaChatProvider';
 export { default as OpenAIChatProvider } from './OpenAIChatProvider';
+export type { RouterChatProviderConfig } from './RouterChatProvider';
+export { default as RouterChatProvider } from './RouterChatProvider';
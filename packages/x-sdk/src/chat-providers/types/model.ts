@@ -1,5 +1,100 @@
 import { AnyObject } from '../../_util/type';
 
+export interface XModelToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /**
+     * @description The arguments in JSON format
+     */
+    arguments: string;
+  };
+}
+
+/**
+ * @description The streamed fragment of a tool call, the fragments are merged by `index`
+ */
+export interface XModelToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/**
+ * @link https://platform.openai.com/docs/api-reference/chat/create#chat-create-tools
+ */
+export interface XModelTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    /**
+     * @description The parameters the function accepts, described as a JSON Schema object
+     */
+    parameters?: AnyObject;
+    strict?: boolean;
+  };
+}
+
+export interface XModelTextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface XModelImageContentPart {
+  type: 'image_url';
+  image_url: {
+    /**
+     * @description The URL or the base64 data URL of the image
+     */
+    url: string;
+    detail?: 'auto' | 'low' | 'high';
+  };
+}
+
+export interface XModelAudioContentPart {
+  type: 'input_audio';
+  input_audio: {
+    /**
+     * @description The base64 encoded audio data, without the data URL prefix
+     */
+    data: string;
+    format: 'wav' | 'mp3';
+  };
+}
+
+export interface XModelFileContentPart {
+  type: 'file';
+  file: {
+    file_id?: string;
+    filename?: string;
+    /**
+     * @description The base64 data URL of the file
+     */
+    file_data?: string;
+  };
+}
+
+/**
+ * @description The OpenAI style content part of the multimodal message
+ */
+export type XModelContentPart =
+  | XModelTextContentPart
+  | XModelImageContentPart
+  | XModelAudioContentPart
+  | XModelFileContentPart;
+
+/**
+ * @description How the reasoning of the model is output, `tag` renders it into `content` with `<think>`,
+ * `field` sets it to the `reasoning` field of the message
+ */
+export type XModelReasoningFormat = 'tag' | 'field';
+
 export interface XModelMessage extends AnyObject {
   role: string;
   content:
@@ -7,7 +102,73 @@ export interface XModelMessage extends AnyObject {
     | {
         text: string;
         type: string;
-      };
+      }
+    | XModelContentPart[];
+  /**
+   * @description The tool calls generated by the model, only for the `assistant` message
+   */
+  tool_calls?: XModelToolCall[];
+  /**
+   * @description The tool call that this message is responding to, only for the `tool` message
+   */
+  tool_call_id?: string;
+  /**
+   * @description The reasoning of the model, only when `reasoningFormat` is `field`
+   */
+  reasoning?: string;
+  /**
+   * @description The reasoning status, it is `done` when the model starts answering or the request ends
+   */
+  reasoning_status?: 'thinking' | 'done';
+  /**
+   * @description The timestamp when the reasoning starts, unit: ms
+   */
+  reasoning_start_time?: number;
+  /**
+   * @description The time spent on reasoning, unit: ms, only for streaming responses
+   */
+  reasoning_duration?: number;
+}
+
+/**
+ * @description The standardized token usage of the model providers
+ */
+export interface XModelUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /**
+   * @description The tokens used for reasoning, they are included in `completionTokens`
+   */
+  reasoningTokens?: number;
+  /**
+   * @description The prompt tokens hit by the cache, they are included in `promptTokens`
+   */
+  cachedTokens?: number;
+}
+
+/**
+ * @description The standardized metadata of the response, it is set to `extraInfo.metadata` of the message
+ */
+export interface XModelMetadata {
+  /**
+   * @description The id of the response
+   */
+  id?: string;
+  /**
+   * @description The model that generates the response
+   */
+  model?: string;
+  finishReason?: string;
+  usage?: XModelUsage;
+  /**
+   * @description The time from sending the request to the end of it, unit: ms
+   */
+  latency?: number;
+  /**
+   * @description The time from sending the request to receiving the first chunk, unit: ms
+   */
+  timeToFirstChunk?: number;
 }
 
 export interface XModelParams extends AnyObject {
@@ -58,7 +219,7 @@ export interface XModelParams extends AnyObject {
           name: string;
         };
       };
-  // tools?: XModelTool[];
+  tools?: XModelTool[];
   top_logprobs?: number;
   top_p?: number;
   user?: string;
@@ -83,7 +244,12 @@ export interface XModelResponse {
       role: string;
       content: string | null;
       reasoning_content: string | null;
+      /**
+       * @description The reasoning returned by some OpenAI compatible interfaces, such as OpenRouter and vLLM
+       */
+      reasoning?: string | null;
       refusal: string | null;
+      tool_calls?: XModelToolCall[];
       annotations: {
         type: 'url_citation';
         end_index: number;
@@ -115,5 +281,185 @@ export interface XModelResponse {
       cached_tokens: number;
       audio_tokens: number;
     };
+    /**
+     * @description The cached prompt tokens of DeepSeek
+     */
+    prompt_cache_hit_tokens?: number;
+  } | null;
+}
+
+export interface XAnthropicContentBlock extends AnyObject {
+  type: 'text' | 'image' | 'thinking' | 'redacted_thinking' | 'tool_use' | 'tool_result' | string;
+  text?: string;
+}
+
+export interface XAnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | XAnthropicContentBlock[];
+}
+
+/**
+ * @link https://docs.anthropic.com/en/api/messages
+ */
+export interface XAnthropicParams extends AnyObject {
+  model?: string;
+  /**
+   * @description The chat messages, they are converted to the Messages API form when sending,
+   * the `system` messages are moved to the `system` param
+   */
+  messages?: XModelMessage[] | XAnthropicMessage[];
+  system?: string | XAnthropicContentBlock[];
+  max_tokens?: number;
+  metadata?: {
+    user_id?: string;
   };
+  stop_sequences?: string[];
+  stream?: boolean;
+  temperature?: number;
+  thinking?:
+    | {
+        type: 'enabled';
+        budget_tokens: number;
+      }
+    | {
+        type: 'disabled';
+      };
+  tool_choice?: AnyObject;
+  tools?: AnyObject[];
+  top_k?: number;
+  top_p?: number;
+}
+
+/**
+ * @link https://ai.google.dev/api/caching#Part
+ */
+export interface XGeminiPart extends AnyObject {
+  text?: string;
+  thought?: boolean;
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
+  fileData?: {
+    mimeType?: string;
+    fileUri: string;
+  };
+  functionCall?: {
+    id?: string;
+    name: string;
+    args?: AnyObject;
+  };
+  functionResponse?: {
+    id?: string;
+    name: string;
+    response: AnyObject;
+  };
+}
+
+export interface XGeminiContent {
+  role?: 'user' | 'model';
+  parts: XGeminiPart[];
+}
+
+/**
+ * @link https://ai.google.dev/api/generate-content#request-body
+ */
+export interface XGeminiParams extends AnyObject {
+  /**
+   * @description The chat messages, they are converted to `contents` when sending,
+   * the `system` messages are moved to `systemInstruction`
+   */
+  messages?: XModelMessage[];
+  contents?: XGeminiContent[];
+  systemInstruction?: XGeminiContent;
+  generationConfig?: AnyObject;
+  safetySettings?: {
+    category: string;
+    threshold: string;
+  }[];
+  tools?: AnyObject[];
+  toolConfig?: AnyObject;
+  cachedContent?: string;
+}
+
+/**
+ * @link https://ai.google.dev/api/generate-content#generatecontentresponse
+ */
+export interface XGeminiResponse {
+  candidates?: {
+    content?: XGeminiContent;
+    finishReason?:
+      | 'STOP'
+      | 'MAX_TOKENS'
+      | 'SAFETY'
+      | 'RECITATION'
+      | 'BLOCKLIST'
+      | 'PROHIBITED_CONTENT'
+      | 'SPII'
+      | 'MALFORMED_FUNCTION_CALL'
+      | string;
+    safetyRatings?: XGeminiSafetyRating[];
+    index?: number;
+  }[];
+  promptFeedback?: {
+    blockReason?: 'SAFETY' | 'BLOCKLIST' | 'PROHIBITED_CONTENT' | 'OTHER' | string;
+    safetyRatings?: XGeminiSafetyRating[];
+  };
+  usageMetadata?: AnyObject;
+  modelVersion?: string;
+  responseId?: string;
+}
+
+export interface XGeminiSafetyRating {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+}
+
+export interface XOllamaMessage extends AnyObject {
+  role: 'system' | 'user' | 'assistant' | 'tool' | string;
+  content: string;
+  thinking?: string;
+  /**
+   * @description Base64 encoded images for the multimodal models
+   */
+  images?: string[];
+  tool_calls?: {
+    function: {
+      name: string;
+      arguments: AnyObject;
+    };
+  }[];
+  tool_name?: string;
+}
+
+/**
+ * @link https://github.com/ollama/ollama/blob/main/docs/api.md#generate-a-chat-completion
+ */
+export interface XOllamaParams extends AnyObject {
+  model?: string;
+  /**
+   * @description The chat messages, they are converted to the Ollama message form when sending
+   */
+  messages?: XModelMessage[];
+  tools?: AnyObject[];
+  think?: boolean;
+  format?: 'json' | AnyObject;
+  options?: AnyObject;
+  stream?: boolean;
+  keep_alive?: string | number;
+}
+
+export interface XOllamaResponse {
+  model: string;
+  created_at: string;
+  message?: XOllamaMessage;
+  done: boolean;
+  done_reason?: 'stop' | 'length' | 'load' | 'unload' | string;
+  total_duration?: number;
+  load_duration?: number;
+  prompt_eval_count?: number;
+  prompt_eval_duration?: number;
+  eval_count?: number;
+  eval_duration?: number;
 }
@@ -0,0 +1,235 @@
+import type { AnyObject } from '../_util/type';
+import type { XRequestMetrics } from '../x-request';
+import {
+  XModelMessage,
+  XModelMetadata,
+  XModelResponse,
+  XModelToolCall,
+  XModelToolCallDelta,
+} from './types/model';
+
+/**
+ * 需要从消息列表中提取为系统提示词的角色
+ */
+export const SYSTEM_ROLES = ['system', 'developer'];
+
+/**
+ * 获取消息的文本内容，多模态消息只保留文本部分
+ */
+export function getMessageText(content: XModelMessage['content']) {
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (part?.type === 'text' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return typeof content === 'string' ? content : content?.text || '';
+}
+
+/**
+ * 解析 base64 data URL，不是 base64 data URL 时返回 undefined
+ */
+export function parseDataURL(url?: string) {
+  const match = url ? /^data:([^;,]*)[^,]*;base64,([\s\S]*)$/.exec(url) : null;
+  return match ? { mimeType: match[1] || 'application/octet-stream', data: match[2] } : undefined;
+}
+
+/**
+ * 解析工具调用的 JSON 参数，流式输出中断等情况下参数可能不完整
+ */
+export function parseToolArguments(args?: string) {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 按 index 合并流式输出的工具调用片段，`id` 和 `name` 只在第一个片段中返回，`arguments` 需要拼接
+ */
+export function mergeToolCallDeltas(toolCalls: XModelToolCall[], deltas: XModelToolCallDelta[]) {
+  const nextToolCalls = [...toolCalls];
+  deltas.forEach((delta) => {
+    const index = delta.index ?? nextToolCalls.length;
+    const toolCall = nextToolCalls[index];
+    nextToolCalls[index] = {
+      id: toolCall?.id || delta.id || '',
+      type: 'function',
+      function: {
+        name: toolCall?.function.name || delta.function?.name || '',
+        arguments: `${toolCall?.function.arguments || ''}${delta.function?.arguments || ''}`,
+      },
+    };
+  });
+  return nextToolCalls;
+}
+
+/**
+ * 获取历史消息中工具调用 id 对应的工具名称，用于需要工具名称的工具结果消息
+ */
+export function getToolNames(messages: XModelMessage[]) {
+  const toolNames: Record<string, string> = {};
+  messages.forEach((message) => {
+    message.tool_calls?.forEach((toolCall) => {
+      toolNames[toolCall.id] = toolCall.function.name;
+    });
+  });
+  return toolNames;
+}
+
+/**
+ * 移除渲染用的思考内容，思考过程不需要作为上下文发送给模型
+ */
+export function removeThink(content: string) {
+  return content.replace(/\s*<think[^>]*>[\s\S]*?(<\/think>|$)\s*/g, '');
+}
+
+/**
+ * 与 DeepSeekChatProvider 一致，使用 `<think>` 渲染思考过程，输出正文时闭合思考
+ */
+export function renderThinkContent(
+  originContent: string,
+  currentThink: string,
+  currentText: string,
+) {
+  let content = originContent;
+  const isThinking = () => content.lastIndexOf('<think') > content.lastIndexOf('</think>');
+  if (currentThink) {
+    content = isThinking()
+      ? `${content}${currentThink}`
+      : // 仅匹配最多前两个换行符，避免性能问题
+        `${content}\n\n<think>\n\n${currentThink.replace(/^\n{0,2}/, '')}`;
+  }
+  if (currentText && isThinking()) {
+    const thinkIndex = content.lastIndexOf('<think>');
+    content = `${content.slice(0, thinkIndex)}<think status="done">${content.slice(thinkIndex + '<think>'.length)}`;
+    // 仅匹配最多结尾的两个空白字符和换行符
+    content = `${content.replace(/[\s\n]{0,2}$/, '')}\n\n</think>\n\n`;
+  }
+  return `${content}${currentText}`;
+}
+
+/**
+ * 获取流式增量或完整消息中的思考过程，DeepSeek 返回 `reasoning_content`，部分 OpenAI 兼容接口返回 `reasoning`
+ */
+export function getReasoningContent(message?: AnyObject): string {
+  return message?.reasoning_content || message?.reasoning || '';
+}
+
+/**
+ * 将思考过程合并到消息的 `reasoning` 字段，开始输出正文或请求完成时结束思考并记录思考耗时
+ * @param originMessage 已有的消息，非流式响应一次返回完整的思考过程，不需要传入
+ * @param isEnd 请求是否已完成
+ */
+export function mergeReasoning(
+  originMessage: XModelMessage | undefined,
+  currentReasoning: string,
+  currentText: string,
+  isEnd = false,
+) {
+  const reasoning = `${originMessage?.reasoning || ''}${currentReasoning}`;
+  if (!reasoning) {
+    return {};
+  }
+  const now = Date.now();
+  const result: Partial<XModelMessage> = {
+    reasoning,
+    reasoning_status: originMessage?.reasoning_status || 'thinking',
+    reasoning_start_time: originMessage?.reasoning_start_time ?? now,
+    reasoning_duration: originMessage?.reasoning_duration,
+  };
+  if (result.reasoning_status === 'thinking' && (currentText || isEnd)) {
+    result.reasoning_status = 'done';
+    // 思考过程和正文在同一个响应中返回时没有思考耗时
+    if (originMessage?.reasoning_status === 'thinking') {
+      result.reasoning_duration = now - result.reasoning_start_time!;
+    }
+  }
+  return omitUndefined(result);
+}
+
+/**
+ * 移除消息中的思考过程，思考过程不需要作为上下文发送给模型
+ */
+export function omitReasoning<T extends XModelMessage>(message: T) {
+  const {
+    reasoning: _reasoning,
+    reasoning_status: _status,
+    reasoning_start_time: _startTime,
+    reasoning_duration: _duration,
+    ...rest
+  } = message;
+  return rest as T;
+}
+
+/**
+ * 解析 OpenAI 兼容接口的响应数据，流式响应需要解析每个事件的 data
+ */
+export function parseOpenAIChunks(chunks: AnyObject[], responseHeaders: Headers) {
+  const isStream = responseHeaders.get('content-type')?.includes('text/event-stream');
+  const responses: XModelResponse[] = [];
+  chunks.forEach((chunk) => {
+    if (!isStream) {
+      if (chunk) responses.push(chunk as XModelResponse);
+      return;
+    }
+    if (chunk?.data && chunk.data.trim() !== '[DONE]') {
+      try {
+        responses.push(JSON.parse(chunk.data));
+      } catch {
+        // 解析失败的数据已经在 transformMessage 中输出错误
+      }
+    }
+  });
+  return responses;
+}
+
+/**
+ * 从 OpenAI 兼容接口的响应中获取元数据，开启 `stream_options.include_usage` 时用量在最后一个事件中返回
+ */
+export function getOpenAIMetadata(responses: XModelResponse[]) {
+  const metadata: XModelMetadata = {};
+  responses.forEach((response) => {
+    metadata.id = response?.id || metadata.id;
+    metadata.model = response?.model || metadata.model;
+    const finishReason = response?.choices?.find((choice) => choice?.finish_reason)?.finish_reason;
+    if (finishReason) {
+      metadata.finishReason = finishReason;
+    }
+    const { usage } = response || {};
+    if (usage) {
+      metadata.usage = {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+        reasoningTokens: usage.completion_tokens_details?.reasoning_tokens,
+        cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? usage.prompt_cache_hit_tokens,
+      };
+    }
+  });
+  return metadata;
+}
+
+function omitUndefined<T extends AnyObject>(object: T) {
+  return Object.keys(object).reduce<AnyObject>((result, key) => {
+    if (object[key] !== undefined) {
+      result[key] = object[key];
+    }
+    return result;
+  }, {}) as T;
+}
+
+/**
+ * 生成消息 extraInfo 中标准化的元数据，耗时取自请求的指标
+ */
+export function createMetadataExtraInfo(metadata: XModelMetadata, metrics?: XRequestMetrics) {
+  return {
+    metadata: omitUndefined({
+      ...metadata,
+      ...(metadata.usage ? { usage: omitUndefined(metadata.usage) } : {}),
+      latency: metrics?.duration,
+      timeToFirstChunk: metrics?.timeToFirstChunk,
+    }),
+  };
+}
@@ -1,25 +1,80 @@
 export * from './chat-providers';
 export type {
+  XAnthropicContentBlock,
+  XAnthropicMessage,
+  XAnthropicParams,
+  XGeminiContent,
+  XGeminiParams,
+  XGeminiPart,
+  XGeminiResponse,
+  XGeminiSafetyRating,
+  XModelAudioContentPart,
+  XModelContentPart,
+  XModelFileContentPart,
+  XModelImageContentPart,
   XModelMessage,
+  XModelMetadata,
   XModelParams,
+  XModelReasoningFormat,
   XModelResponse,
+  XModelTextContentPart,
+  XModelTool,
+  XModelToolCall,
+  XModelToolCallDelta,
+  XModelUsage,
+  XOllamaMessage,
+  XOllamaParams,
+  XOllamaResponse,
 } from './chat-providers/types/model';
-export type { DefaultMessageInfo, MessageInfo } from './x-chat';
+export type { DefaultMessageInfo, MessageInfo, XChatToolHandler } from './x-chat';
+export type { XChatBranchInfo } from './x-chat/branch';
 export { default as useXChat } from './x-chat';
+export type {
+  IndexedDBChatStorageOptions,
+  LocalStorageChatStorageOptions,
+  XChatStorage,
+  XChatStorageData,
+} from './x-chat/storage';
+export { IndexedDBChatStorage, LocalStorageChatStorage, MemoryChatStorage } from './x-chat/storage';
 export type { ConversationData } from './x-conversations';
 export { default as useXConversations } from './x-conversations';
 export type {
+  XFetchMiddlewares,
+  XFetchMiddlewaresOption,
   XRequestCallbacks,
   XRequestClass,
+  XRequestDedupeOptions,
+  XRequestEvent,
+  XRequestEventListener,
+  XRequestEventType,
   XRequestFunction,
   XRequestGlobalOptions,
+  XRequestMetrics,
   XRequestOptions,
+  XRequestResumeOptions,
+  XRequestRetryInfo,
+  XRequestRetryOptions,
+  XRequestTransformerFactory,
+} from './x-request';
+export {
+  AbstractXRequestClass,
+  clearXRequestCache,
+  default as XRequest,
+  registerXRequestTransformer,
+  unregisterXRequestTransformer,
 } from './x-request';
-export { AbstractXRequestClass, default as XRequest } from './x-request';
 export type {
   SSEFields,
   SSEOutput,
   XReadableStream,
   XStreamOptions,
+  XStreamReplayOptions,
+  XStreamTranscript,
+} from './x-stream';
+export {
+  ndjsonTransformStream,
+  recordXStream,
+  replayXStream,
+  teeXStream,
+  default as XStream,
 } from './x-stream';
-export { default as XStream } from './x-stream';
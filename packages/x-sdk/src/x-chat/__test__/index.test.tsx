@@ -1,8 +1,9 @@
 import React, { useImperativeHandle } from 'react';
-import { fireEvent, render, renderHook, sleep, waitFakeTimer } from '../../../tests/utils';
+import { act, fireEvent, render, renderHook, sleep, waitFakeTimer } from '../../../tests/utils';
 import { DefaultChatProvider } from '../../chat-providers';
 import XRequest from '../../x-request';
 import useXChat, { MessageStatus, SimpleType, XChatConfig } from '../index';
+import { MemoryChatStorage } from '../storage';
 import { chatMessagesStoreHelper } from '../store';
 
 interface ChatInput {
@@ -264,6 +265,43 @@ describe('useXChat', () => {
     expect(result.current?.messages[0].message).toEqual('Hello2');
   });
 
+  it('should aggregate the usage of the messages', () => {
+    const { result } = renderHook(() =>
+      useXChat<string, ChatInput, any, any>({
+        defaultMessages: [
+          { message: 'Hello', status: 'local' },
+          {
+            message: 'Hi',
+            extraInfo: {
+              metadata: { usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } },
+            },
+          },
+          {
+            message: 'How can I help you?',
+            extraInfo: {
+              metadata: {
+                usage: {
+                  promptTokens: 30,
+                  completionTokens: 20,
+                  totalTokens: 50,
+                  reasoningTokens: 12,
+                  cachedTokens: 16,
+                },
+              },
+            },
+          },
+        ],
+      }),
+    );
+    expect(result.current?.usage).toEqual({
+      promptTokens: 40,
+      completionTokens: 25,
+      totalTokens: 65,
+      reasoningTokens: 12,
+      cachedTokens: 16,
+    });
+  });
+
   it('should reload, isRequesting work successfully', async () => {
     let count = 0;
     const provider = new DefaultChatProvider<ChatInput, any, any>({
@@ -318,6 +356,592 @@ describe('useXChat', () => {
     ]);
   });
 
+  it('should restore the stored messages', async () => {
+    const storage = new MemoryChatStorage();
+    storage.save('storage-1', {
+      messages: [
+        { id: 'msg_0', message: 'Hello', status: 'local' },
+        { id: 'msg_1', message: 'Hi, I am', status: 'updating', parentId: 'msg_0' },
+        { id: 'msg_2', message: 'Loading...', status: 'loading', parentId: 'msg_0' },
+        { id: 'msg_3', message: 'Tell me more', status: 'local', parentId: 'msg_2' },
+      ],
+      activeBranches: [['msg_0', 'msg_1']],
+    });
+    const { result } = renderHook(() =>
+      useXChat<string, ChatInput, any, any>({
+        defaultMessages: [{ message: 'Welcome' }],
+        conversationKey: 'storage-1',
+        storage,
+      }),
+    );
+    expect(result.current?.isHistoryLoading).toBe(true);
+    expect(result.current?.messages).toEqual([
+      { id: 'default_0', message: 'Welcome', status: 'local' },
+    ]);
+    await sleep();
+    expect(result.current?.isHistoryLoading).toBe(false);
+    // The stored active branch is kept
+    expect(result.current?.messages).toEqual([
+      { id: 'msg_0', message: 'Hello', status: 'local' },
+      { id: 'msg_1', message: 'Hi, I am', status: 'abort', parentId: 'msg_0' },
+    ]);
+    // The child of the dropped placeholder is chained to its parent
+    expect(result.current?.getBranchInfo('msg_3')).toEqual({
+      index: 1,
+      total: 2,
+      ids: ['msg_1', 'msg_3'],
+    });
+  });
+
+  it('should persist the messages on success', async () => {
+    const storage = new MemoryChatStorage();
+    storage.save('storage-2', {
+      messages: [{ id: 'msg_3', message: { query: 'Hello' }, status: 'local' }],
+    });
+    const provider = new DefaultChatProvider<ChatInput, any, any>({
+      request: XRequest('http://localhost:8000/', {
+        manual: true,
+        fetch: async () =>
+          new Response('{"content": "bamboo"}', {
+            headers: {
+              'Content-Type': 'application/json',
+            },
+          }),
+      }),
+    });
+    const ref = React.createRef<any>();
+    const { container } = render(
+      <Demo ref={ref} provider={provider} conversationKey="storage-2" storage={storage} />,
+    );
+    await sleep();
+    fireEvent.change(container.querySelector('input')!, { target: { value: 'little' } });
+    await sleep(200);
+    const stored = storage.load('storage-2')!.messages;
+    expect(stored).toEqual([
+      { id: 'msg_3', message: { query: 'Hello' }, status: 'local' },
+      {
+        id: expect.any(String),
+        message: { query: 'little' },
+        status: 'local',
+        extraInfo: { feedback: 'like' },
+        parentId: 'msg_3',
+      },
+      {
+        id: expect.any(String),
+        message: { content: 'bamboo' },
+        status: 'success',
+        parentId: stored[1].id,
+      },
+    ]);
+    // The new ids never conflict with the stored ids
+    expect(new Set(stored.map((info) => info.id)).size).toBe(3);
+  });
+
+  it('should regenerate and edit the messages as branches', async () => {
+    let count = 0;
+    const provider = new DefaultChatProvider<ChatInput, any, any>({
+      request: XRequest('http://localhost:8000/', {
+        manual: true,
+        fetch: async () => {
+          count = count + 1;
+          return new Response(`{"content": "answer${count}"}`, {
+            headers: {
+              'Content-Type': 'application/json',
+            },
+          });
+        },
+      }),
+    });
+    const { result } = renderHook(() => useXChat<any, any, ChatInput, any>({ provider }));
+    const getContents = () => result.current?.messages.map((info) => info.message);
+
+    act(() => {
+      result.current?.onRequest({ query: 'question1' });
+    });
+    await sleep(200);
+    const [questionId, answerId] = result.current!.messages.map((info) => info.id);
+
+    // Regenerate keeps the previous answer as a sibling
+    act(() => {
+      result.current?.onReload(answerId, {});
+    });
+    await sleep(200);
+    expect(getContents()).toEqual([{ query: 'question1' }, { content: 'answer2' }]);
+    const regeneratedId = result.current!.messages[1].id;
+    expect(result.current?.messages[1].parentId).toBe(questionId);
+    expect(result.current?.getBranchInfo(regeneratedId)).toEqual({
+      index: 1,
+      total: 2,
+      ids: [answerId, regeneratedId],
+    });
+
+    act(() => {
+      result.current?.switchBranch(answerId);
+    });
+    expect(getContents()).toEqual([{ query: 'question1' }, { content: 'answer1' }]);
+
+    // Edit forks the question from the root
+    act(() => {
+      result.current?.onEdit(questionId, { query: 'question2' });
+    });
+    await sleep(200);
+    expect(getContents()).toEqual([{ query: 'question2' }, { content: 'answer3' }]);
+    expect(result.current?.getBranchInfo(result.current!.messages[0].id)).toMatchObject({
+      index: 1,
+      total: 2,
+    });
+
+    // The descendants keep their active branches
+    act(() => {
+      result.current?.switchBranch(questionId);
+    });
+    expect(getContents()).toEqual([{ query: 'question1' }, { content: 'answer1' }]);
+
+    expect(() => result.current?.switchBranch('fake id')).toThrow('message [fake id] is not found');
+    expect(() => result.current?.onEdit('fake id', { query: 'Hello' })).toThrow(
+      'message [fake id] is not found',
+    );
+  });
+
+  it('should remove, insert and truncate the messages in the tree', async () => {
+    const { result } = renderHook(() =>
+      useXChat<string, string, ChatInput, any>({
+        defaultMessages: [{ message: 'Q1' }, { message: 'A1' }, { message: 'Q2' }],
+        conversationKey: 'crud',
+      }),
+    );
+    const getContents = () => result.current?.messages.map((info) => info.message);
+
+    let inserted: any;
+    act(() => {
+      inserted = result.current?.insertMessage('default_0', { message: 'Tip' });
+    });
+    expect(inserted).toMatchObject({ status: 'local', parentId: 'default_0' });
+    expect(getContents()).toEqual(['Q1', 'Tip', 'A1', 'Q2']);
+
+    let removed: boolean | undefined;
+    act(() => {
+      removed = result.current?.removeMessage('default_1');
+    });
+    expect(removed).toBe(true);
+    expect(getContents()).toEqual(['Q1', 'Tip', 'Q2']);
+    expect(result.current?.messages[2].parentId).toBe(inserted.id);
+    expect(result.current?.removeMessage('default_1')).toBe(false);
+
+    act(() => {
+      result.current?.insertMessage(null, { id: 'system', message: 'System' });
+    });
+    expect(getContents()).toEqual(['System', 'Q1', 'Tip', 'Q2']);
+
+    act(() => {
+      result.current?.truncateAfter('default_0');
+    });
+    expect(getContents()).toEqual(['System', 'Q1']);
+
+    expect(() => result.current?.insertMessage('fake id', { message: 'Hello' })).toThrow(
+      'message [fake id] is not found',
+    );
+    expect(() => result.current?.insertMessage(null, { id: 'system', message: 'Hello' })).toThrow(
+      'message [system] already exists',
+    );
+    expect(() => result.current?.truncateAfter('fake id')).toThrow(
+      'message [fake id] is not found',
+    );
+
+    act(() => {
+      result.current?.switchBranch('default_0');
+    });
+    expect(chatMessagesStoreHelper.get('crud')?.getActiveBranches().size).toBeGreaterThan(0);
+    act(() => {
+      result.current?.clearMessages();
+    });
+    expect(result.current?.messages).toEqual([]);
+    // The active branches point at the removed messages
+    expect(chatMessagesStoreHelper.get('crud')?.getActiveBranches().size).toBe(0);
+  });
+
+  it('should keep the active branch after removing the message', async () => {
+    let count = 0;
+    const provider = new DefaultChatProvider<ChatInput, any, any>({
+      request: XRequest('http://localhost:8000/', {
+        manual: true,
+        fetch: async () => {
+          count = count + 1;
+          return new Response(`{"content": "answer${count}"}`, {
+            headers: {
+              'Content-Type': 'application/json',
+            },
+          });
+        },
+      }),
+    });
+    const { result } = renderHook(() => useXChat<any, any, ChatInput, any>({ provider }));
+    const getContents = () => result.current?.messages.map((info) => info.message);
+
+    act(() => {
+      result.current?.onRequest({ query: 'question1' });
+    });
+    await sleep(200);
+    const [questionId, answerId] = result.current!.messages.map((info) => info.id);
+    act(() => {
+      result.current?.onEdit(questionId, { query: 'question2' });
+    });
+    await sleep(200);
+    act(() => {
+      result.current?.switchBranch(questionId);
+    });
+
+    act(() => {
+      result.current?.removeMessage(questionId);
+    });
+    expect(getContents()).toEqual([{ content: 'answer1' }]);
+    expect(result.current?.getBranchInfo(answerId)).toMatchObject({ index: 0, total: 2 });
+  });
+
+  it('should abort the requests of the removed messages', async () => {
+    const provider = new DefaultChatProvider<ChatInput, any, any>({
+      request: XRequest('http://localhost:8000/', {
+        manual: true,
+        fetch: (_, options) =>
+          new Promise((_resolve, reject) => {
+            options.signal?.addEventListener('abort', () => {
+              reject(new DOMException('The operation was aborted.', 'AbortError'));
+            });
+          }),
+      }),
+    });
+    const { result } = renderHook(() =>
+      useXChat<any, any, ChatInput, any>({
+        provider,
+        requestPlaceholder: 'loading',
+        requestFallback: 'failed',
+      }),
+    );
+
+    act(() => {
+      result.current?.onRequest({ query: 'question1' });
+    });
+    await sleep();
+    expect(result.current?.isRequesting).toBe(true);
+
+    act(() => {
+      result.current?.truncateAfter(result.current!.messages[0].id);
+    });
+    await sleep();
+    expect(result.current?.isRequesting).toBe(false);
+    // The fallback message is not added back
+    expect(result.current?.messages.map((info) => info.message)).toEqual([{ query: 'question1' }]);
+
+    act(() => {
+      result.current?.onRequest({ query: 'question2' });
+    });
+    await sleep();
+    act(() => {
+      result.current?.clearMessages();
+    });
+    await sleep();
+    expect(result.current?.isRequesting).toBe(false);
+    expect(result.current?.messages).toEqual([]);
+  });
+
+  it('should run the concurrent requests independently', async () => {
+    const resolvers: ((response: Response) => void)[] = [];
+    const provider = new DefaultChatProvider<ChatInput, any, any>({
+      request: XRequest('http://localhost:8000/', {
+        manual: true,
+        fetch: (_, options) =>
+          new Promise((resolve, reject) => {
+            resolvers.push(resolve);
+            options.signal?.addEventListener('abort', () => {
+              reject(new DOMException('The operation was aborted.', 'AbortError'));
+            });
+          }),
+      }),
+    });
+    const { result } = renderHook(() =>
+      useXChat<any, any, ChatInput, any>({ provider, requestPlaceholder: 'loading' }),
+    );
+
+    act(() => {
+      result.current?.onRequest({ query: 'question1' });
+      result.current?.onRequest({ query: 'question2' });
+    });
+    await sleep();
+    expect(resolvers.length).toBe(2);
+    expect(result.current?.isRequesting).toBe(true);
+
+    // Abort the first request by its placeholder message
+    const [loadingId] = result.current!.messages.filter((info) => info.status === 'loading');
+    act(() => {
+      result.current?.abort(loadingId.id);
+    });
+    await sleep();
+    expect(result.current?.isRequesting).toBe(true);
+
+    resolvers[1](
+      new Response('{"content": "answer2"}', {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }),
+    );
+    await sleep(100);
+    expect(result.current?.isRequesting).toBe(false);
+    expect(result.current?.messages.map((info) => [info.message, info.status])).toEqual([
+      [{ query: 'question1' }, 'local'],
+      ['loading', 'abort'],
+      [{ query: 'question2' }, 'local'],
+      [{ content: 'answer2' }, 'success'],
+    ]);
+  });
+
+  describe('concurrency', () => {
+    const createPendingProvider = () => {
+      const resolvers: ((response: Response) => void)[] = [];
+      const provider = new DefaultChatProvider<ChatInput, any, any>({
+        request: XRequest('http://localhost:8000/', {
+          manual: true,
+          fetch: (_, options) =>
+            new Promise((resolve, reject) => {
+              resolvers.push(resolve);
+              options.signal?.addEventListener('abort', () => {
+                reject(new DOMException('The operation was aborted.', 'AbortError'));
+              });
+            }),
+        }),
+      });
+      const respond = (index: number, content: string) =>
+        resolvers[index](
+          new Response(JSON.stringify({ content }), {
+            headers: {
+              'Content-Type': 'application/json',
+            },
+          }),
+        );
+      return { provider, resolvers, respond };
+    };
+
+    it('should queue the requests', async () => {
+      const { provider, resolvers, respond } = createPendingProvider();
+      const { result } = renderHook(() =>
+        useXChat<any, any, ChatInput, any>({ provider, concurrency: 'queue' }),
+      );
+      const getContents = () => result.current?.messages.map((info) => [info.message, info.status]);
+
+      act(() => {
+        result.current?.onRequest({ query: 'question1' });
+        result.current?.onRequest({ query: 'question2' });
+        result.current?.onRequest({ query: 'question3' });
+      });
+      await sleep();
+      expect(resolvers.length).toBe(1);
+      expect(getContents()).toEqual([
+        [{ query: 'question1' }, 'local'],
+        [{ query: 'question2' }, 'queued'],
+        [{ query: 'question3' }, 'queued'],
+      ]);
+
+      // Cancel the queued request
+      act(() => {
+        result.current?.abort(result.current.messages[2].id);
+      });
+      respond(0, 'answer1');
+      await sleep(100);
+      expect(resolvers.length).toBe(2);
+      expect(result.current?.isRequesting).toBe(true);
+      expect(getContents()).toEqual([
+        [{ query: 'question1' }, 'local'],
+        [{ content: 'answer1' }, 'success'],
+        [{ query: 'question2' }, 'local'],
+      ]);
+      expect(result.current?.messages[2].parentId).toBe(result.current?.messages[1].id);
+
+      respond(1, 'answer2');
+      await sleep(100);
+      expect(result.current?.isRequesting).toBe(false);
+      expect(getContents()).toEqual([
+        [{ query: 'question1' }, 'local'],
+        [{ content: 'answer1' }, 'success'],
+        [{ query: 'question2' }, 'local'],
+        [{ content: 'answer2' }, 'success'],
+      ]);
+    });
+
+    it('should abort all requests when abort is used as the click handler', async () => {
+      const { provider, resolvers } = createPendingProvider();
+      const { result } = renderHook(() =>
+        useXChat<any, any, ChatInput, any>({ provider, requestPlaceholder: 'loading' }),
+      );
+
+      act(() => {
+        result.current?.onRequest({ query: 'question1' });
+        result.current?.onRequest({ query: 'question2' });
+      });
+      await sleep();
+      expect(resolvers.length).toBe(2);
+
+      // `onClick={abort}` passes the click event
+      act(() => {
+        (result.current!.abort as (event: any) => void)(new MouseEvent('click'));
+      });
+      await sleep(100);
+      expect(result.current?.isRequesting).toBe(false);
+      expect(
+        result.current?.messages.filter((info) => info.status === 'abort').map((i) => i.message),
+      ).toEqual(['loading', 'loading']);
+    });
+
+    it('should replace the current request', async () => {
+      const { provider, resolvers, respond } = createPendingProvider();
+      const { result } = renderHook(() =>
+        useXChat<any, any, ChatInput, any>({
+          provider,
+          concurrency: 'replace',
+          requestPlaceholder: 'loading',
+        }),
+      );
+
+      act(() => {
+        result.current?.onRequest({ query: 'question1' });
+        result.current?.onRequest({ query: 'question2' });
+      });
+      await sleep();
+      expect(resolvers.length).toBe(2);
+      respond(1, 'answer2');
+      await sleep(100);
+      expect(result.current?.isRequesting).toBe(false);
+      expect(result.current?.messages.map((info) => [info.message, info.status])).toEqual([
+        [{ query: 'question1' }, 'local'],
+        ['loading', 'abort'],
+        [{ query: 'question2' }, 'local'],
+        [{ content: 'answer2' }, 'success'],
+      ]);
+    });
+
+    it('should not create the fallback message for the canceled requests', async () => {
+      const { provider, resolvers, respond } = createPendingProvider();
+      const { result } = renderHook(() =>
+        useXChat<any, any, ChatInput, any>({
+          provider,
+          concurrency: 'replace',
+          requestFallback: 'fallback',
+        }),
+      );
+
+      act(() => {
+        result.current?.onRequest({ query: 'question1' });
+        result.current?.onRequest({ query: 'question2' });
+      });
+      await sleep();
+      respond(1, 'answer2');
+      await sleep(100);
+      expect(result.current?.messages.map((info) => [info.message, info.status])).toEqual([
+        [{ query: 'question1' }, 'local'],
+        [{ query: 'question2' }, 'local'],
+        [{ content: 'answer2' }, 'success'],
+      ]);
+
+      act(() => {
+        result.current?.onRequest({ query: 'question3' });
+      });
+      await sleep();
+      expect(resolvers.length).toBe(3);
+      act(() => {
+        result.current?.clearMessages();
+      });
+      await sleep(100);
+      expect(result.current?.messages).toEqual([]);
+      expect(result.current?.isRequesting).toBe(false);
+    });
+
+    it('should keep the canceled requests canceled when they are aborted again', async () => {
+      const { provider, resolvers, respond } = createPendingProvider();
+      const { result } = renderHook(() =>
+        useXChat<any, any, ChatInput, any>({
+          provider,
+          concurrency: 'replace',
+          requestFallback: 'fallback',
+        }),
+      );
+
+      act(() => {
+        result.current?.onRequest({ query: 'question1' });
+      });
+      await sleep();
+      act(() => {
+        const firstId = result.current!.messages[0].id;
+        result.current?.onRequest({ query: 'question2' });
+        result.current?.abort(firstId);
+      });
+      await sleep();
+      expect(resolvers.length).toBe(2);
+      respond(1, 'answer2');
+      await sleep(100);
+      expect(result.current?.messages.map((info) => [info.message, info.status])).toEqual([
+        [{ query: 'question1' }, 'local'],
+        [{ query: 'question2' }, 'local'],
+        [{ content: 'answer2' }, 'success'],
+      ]);
+    });
+
+    it('should cancel the queued requests when unmounted', async () => {
+      const { provider, resolvers, respond } = createPendingProvider();
+      let chat: any;
+      const Chat = () => {
+        chat = useXChat<any, any, ChatInput, any>({
+          provider,
+          concurrency: 'queue',
+          conversationKey: 'queue-unmount',
+        });
+        return null;
+      };
+      const { unmount } = render(<Chat />);
+
+      act(() => {
+        chat.onRequest({ query: 'question1' });
+        chat.onRequest({ query: 'question2' });
+      });
+      await sleep();
+      unmount();
+      respond(0, 'answer1');
+      await sleep(100);
+      expect(resolvers.length).toBe(1);
+      expect(
+        chatMessagesStoreHelper
+          .getMessages('queue-unmount')
+          ?.map((info: any) => [info.message, info.status]),
+      ).toEqual([
+        [{ query: 'question1' }, 'local'],
+        [{ content: 'answer1' }, 'success'],
+      ]);
+    });
+
+    it('should reject the new request', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const { provider, resolvers } = createPendingProvider();
+      const { result } = renderHook(() =>
+        useXChat<any, any, ChatInput, any>({ provider, concurrency: 'reject' }),
+      );
+
+      act(() => {
+        result.current?.onRequest({ query: 'question1' });
+        result.current?.onRequest({ query: 'question2' });
+      });
+      await sleep();
+      expect(resolvers.length).toBe(1);
+      expect(result.current?.messages.map((info) => info.message)).toEqual([
+        { query: 'question1' },
+      ]);
+      expect(warnSpy).toHaveBeenCalledWith(
+        'The request is rejected because the conversation is requesting!',
+      );
+      act(() => {
+        result.current?.abort();
+      });
+      warnSpy.mockRestore();
+    });
+  });
+
   it('should chat messages store(dep conversationKey) work successfully', async () => {
     renderHook(() =>
       useXChat<string, ChatInput, any, any>({
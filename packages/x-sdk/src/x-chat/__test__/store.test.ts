@@ -1,3 +1,4 @@
+import { LocalStorageChatStorage, MemoryChatStorage } from '../storage';
 import { ChatMessagesStore } from '../store';
 
 describe('ChatMessagesStore', () => {
@@ -165,4 +166,120 @@ describe('ChatMessagesStore', () => {
       expect((store as any).pendingEmit).toBe(false);
     });
   });
+
+  describe('batchUpdate', () => {
+    it('should notify the listeners once after the updates', () => {
+      const listener = jest.fn();
+      store.subscribe(listener);
+      const result = store.batchUpdate(() => {
+        store.addMessage({ id: '1', message: 'Hello' });
+        store.batchUpdate(() => {
+          store.setMessage('1', { message: 'Hi' });
+          store.setActiveBranch(null, '1');
+        });
+        store.addMessage({ id: '2', message: 'World' });
+        return 'done';
+      });
+      expect(result).toBe('done');
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(store.getMessages()).toEqual([
+        { id: '1', message: 'Hi' },
+        { id: '2', message: 'World' },
+      ]);
+
+      store.batchUpdate(() => {});
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove the message by number id', () => {
+      const numberStore = new ChatMessagesStore<{ id: number }>([{ id: 1 }, { id: 2 }]);
+      expect(numberStore.removeMessage(1)).toBe(true);
+      expect(numberStore.getMessages()).toEqual([{ id: 2 }]);
+      numberStore.destroy();
+    });
+  });
+
+  describe('storage', () => {
+    it('should save the streaming messages at most once per interval', async () => {
+      const storage = new MemoryChatStorage();
+      const saveSpy = jest.spyOn(storage, 'save');
+      const persistStore = new ChatMessagesStore<{ id: string; message: string; status: string }>(
+        [],
+        'persist-1',
+        { storage },
+      );
+      await persistStore.load();
+      persistStore.setMessages([{ id: '1', message: 'Hi', status: 'updating' }]);
+      persistStore.setMessages([{ id: '1', message: 'Hi, I am', status: 'updating' }]);
+      expect(saveSpy).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      expect(saveSpy).toHaveBeenCalledTimes(1);
+      expect(storage.load('persist-1')).toEqual({
+        messages: [{ id: '1', message: 'Hi, I am', status: 'updating' }],
+        activeBranches: [],
+      });
+
+      // The active branches are saved with the messages
+      persistStore.setActiveBranch(null, '1');
+      jest.advanceTimersByTime(1000);
+      expect(storage.load('persist-1')?.activeBranches).toEqual([[null, '1']]);
+
+      // The stored messages are deleted when there is no message
+      persistStore.setMessages([]);
+      await persistStore.persist();
+      expect(storage.load('persist-1')).toBeUndefined();
+      persistStore.destroy();
+    });
+
+    it('should not overwrite the stored messages before loading', async () => {
+      const storage = new MemoryChatStorage();
+      storage.save('persist-2', {
+        messages: [{ id: '1', message: 'Hello' }],
+        activeBranches: [[null, '1']],
+      });
+      const persistStore = new ChatMessagesStore<{ id: string; message: string }>(
+        [{ id: 'default_0', message: 'Welcome' }],
+        'persist-2',
+        { storage },
+      );
+      expect(persistStore.getLoading()).toBe(true);
+      await persistStore.persist();
+      expect(storage.load('persist-2')?.messages).toEqual([{ id: '1', message: 'Hello' }]);
+
+      persistStore.addMessage({ id: '2', message: 'Kitty' });
+      await persistStore.load();
+      expect(persistStore.getLoading()).toBe(false);
+      expect(persistStore.getMessages()).toEqual([
+        { id: '1', message: 'Hello' },
+        { id: '2', message: 'Kitty' },
+      ]);
+      expect(persistStore.getActiveBranches()).toEqual(new Map([[null, '1']]));
+      expect(storage.load('persist-2')).toEqual({
+        messages: persistStore.getMessages(),
+        activeBranches: [[null, '1']],
+      });
+      persistStore.destroy();
+    });
+
+    it('should not persist the conversation without key', async () => {
+      const storage = new MemoryChatStorage();
+      const loadSpy = jest.spyOn(storage, 'load');
+      const persistStore = new ChatMessagesStore<{ id: string }>([], undefined, { storage });
+      expect(persistStore.getLoading()).toBe(false);
+      await persistStore.load();
+      expect(loadSpy).not.toHaveBeenCalled();
+    });
+
+    it('should store the messages in localStorage', () => {
+      const storage = new LocalStorageChatStorage({ prefix: 'test:' });
+      storage.save('conversation-1', { messages: [{ id: '1', message: 'Hello' }] });
+      expect(localStorage.getItem('test:conversation-1')).toBe(
+        '{"messages":[{"id":"1","message":"Hello"}]}',
+      );
+      expect(storage.load('conversation-1')).toEqual({ messages: [{ id: '1', message: 'Hello' }] });
+      storage.delete('conversation-1');
+      expect(storage.load('conversation-1')).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,184 @@
+import { act, renderHook, sleep } from '../../../tests/utils';
+import { OpenAIChatProvider } from '../../chat-providers';
+import type { XModelMessage } from '../../chat-providers/types/model';
+import XRequest from '../../x-request';
+import useXChat, { XChatConfig } from '../index';
+
+const weatherToolCall = {
+  id: 'call_weather',
+  type: 'function',
+  function: { name: 'get_weather', arguments: '{"city":"Hangzhou"}' },
+};
+
+function createSSEResponse(deltas: any[]) {
+  const events = deltas.map((delta) => `data: ${JSON.stringify({ choices: [{ delta }] })}\n\n`);
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'content-type': 'text/event-stream' }),
+    body: new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(`${events.join('')}data: [DONE]\n\n`));
+        controller.close();
+      },
+    }),
+  } as unknown as Response;
+}
+
+const toolCallResponse = (toolCalls = [weatherToolCall]) =>
+  createSSEResponse([
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: toolCalls.map((toolCall, index) => ({ index, ...toolCall })),
+    },
+  ]);
+
+const answerResponse = () => createSSEResponse([{ role: 'assistant', content: 'It is sunny.' }]);
+
+function renderChat(
+  fetch: jest.Mock,
+  config: Omit<XChatConfig<XModelMessage, XModelMessage, any, any>, 'provider'>,
+) {
+  const provider = new OpenAIChatProvider({
+    request: XRequest('http://localhost:3000/chat', { manual: true, fetch }),
+  });
+  const { result } = renderHook(() => useXChat({ provider, ...config }));
+  act(() => {
+    result.current!.onRequest({
+      messages: [{ role: 'user', content: 'What is the weather like in Hangzhou?' }],
+    });
+  });
+  return result;
+}
+
+const getRequestMessages = (fetch: jest.Mock, index: number) =>
+  JSON.parse(fetch.mock.calls[index][1].body).messages;
+
+describe('useXChat tools', () => {
+  it('should run the tools and send the follow-up request', async () => {
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(toolCallResponse())
+      .mockResolvedValueOnce(answerResponse());
+    const getWeather = jest.fn(async () => ({ weather: 'sunny' }));
+    const result = renderChat(fetch, { tools: { get_weather: getWeather } });
+    await sleep(200);
+
+    expect(getWeather).toHaveBeenCalledWith(
+      { city: 'Hangzhou' },
+      expect.objectContaining({ toolCall: weatherToolCall }),
+    );
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(getRequestMessages(fetch, 1)).toEqual([
+      { role: 'user', content: 'What is the weather like in Hangzhou?' },
+      { role: 'assistant', content: '', tool_calls: [weatherToolCall] },
+      { role: 'tool', tool_call_id: 'call_weather', content: '{"weather":"sunny"}' },
+    ]);
+    expect(result.current!.messages).toEqual([
+      expect.objectContaining({ status: 'local' }),
+      expect.objectContaining({
+        message: { role: 'assistant', content: '', tool_calls: [weatherToolCall] },
+        status: 'success',
+      }),
+      expect.objectContaining({
+        message: { role: 'tool', tool_call_id: 'call_weather', content: '{"weather":"sunny"}' },
+        status: 'success',
+        extraInfo: { toolCall: weatherToolCall, toolStep: 1 },
+      }),
+      expect.objectContaining({
+        message: { role: 'assistant', content: 'It is sunny.' },
+        status: 'success',
+      }),
+    ]);
+    expect(result.current!.isRequesting).toBe(false);
+  });
+
+  it('should send the errors of the tools as the tool results', async () => {
+    const timeToolCall = {
+      id: 'call_time',
+      type: 'function',
+      function: { name: 'get_time', arguments: '{}' },
+    };
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(toolCallResponse([weatherToolCall, timeToolCall]))
+      .mockResolvedValueOnce(answerResponse());
+    const result = renderChat(fetch, {
+      tools: {
+        get_weather: () => {
+          throw new Error('service unavailable');
+        },
+      },
+    });
+    await sleep(200);
+
+    expect(result.current!.messages.slice(2, 4)).toEqual([
+      expect.objectContaining({
+        message: {
+          role: 'tool',
+          tool_call_id: 'call_weather',
+          content: 'Error: service unavailable',
+        },
+        status: 'error',
+      }),
+      expect.objectContaining({
+        message: {
+          role: 'tool',
+          tool_call_id: 'call_time',
+          content: 'Error: tool [get_time] is not found',
+        },
+        status: 'error',
+      }),
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop when the max tool steps is reached', async () => {
+    const fetch = jest.fn(async () => toolCallResponse());
+    const getWeather = jest.fn(() => 'sunny');
+    const result = renderChat(fetch, { tools: { get_weather: getWeather }, maxToolSteps: 2 });
+    await sleep(300);
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(getWeather).toHaveBeenCalledTimes(2);
+    expect(result.current!.isRequesting).toBe(false);
+  });
+
+  it('should not run the tools without the tools config', async () => {
+    const fetch = jest.fn(async () => toolCallResponse());
+    const result = renderChat(fetch, {});
+    await sleep(100);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(result.current!.messages).toHaveLength(2);
+    expect(result.current!.isRequesting).toBe(false);
+  });
+
+  it('should abort the running tools', async () => {
+    const fetch = jest.fn(async () => toolCallResponse());
+    let signal: AbortSignal | undefined;
+    const result = renderChat(fetch, {
+      tools: {
+        get_weather: (_, info) =>
+          new Promise((resolve) => {
+            signal = info.signal;
+            setTimeout(() => resolve('sunny'), 100);
+          }),
+      },
+    });
+    await sleep(50);
+    expect(result.current!.messages[2].status).toBe('loading');
+    expect(result.current!.isRequesting).toBe(true);
+
+    act(() => {
+      result.current!.abort();
+    });
+    await sleep(150);
+
+    expect(signal?.aborted).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(result.current!.messages[2].status).toBe('abort');
+    expect(result.current!.isRequesting).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+export type MessageId = string | number;
+
+/** The active child by the parent id, `null` is the root of the conversation */
+export type ActiveBranches = Map<MessageId | null, MessageId>;
+
+export interface XChatBranchInfo {
+  /** The index of the message in its siblings, starting from 0 */
+  index: number;
+  total: number;
+  /** The ids of the siblings in creation order, including the message itself */
+  ids: MessageId[];
+}
+
+interface BranchNode {
+  id: MessageId;
+  parentId?: MessageId | null;
+}
+
+// Messages without `parentId`, such as `defaultMessages`, are chained after the previous message
+function resolveParentId<T extends BranchNode>(list: T[], index: number) {
+  const { parentId } = list[index];
+  if (parentId !== undefined) {
+    return parentId;
+  }
+  return index ? list[index - 1].id : null;
+}
+
+function groupChildren<T extends BranchNode>(list: T[]) {
+  const children = new Map<MessageId | null, T[]>();
+  list.forEach((item, index) => {
+    const parentId = resolveParentId(list, index);
+    const siblings = children.get(parentId);
+    if (siblings) {
+      siblings.push(item);
+    } else {
+      children.set(parentId, [item]);
+    }
+  });
+  return children;
+}
+
+/**
+ * Return `undefined` when the message is not found
+ */
+export function getParentId<T extends BranchNode>(list: T[], id: MessageId) {
+  const index = list.findIndex((item) => item.id === id);
+  return index === -1 ? undefined : resolveParentId(list, index);
+}
+
+/**
+ * Walk from the root through the active children, the latest child is active by default
+ */
+export function getActivePath<T extends BranchNode>(list: T[], activeBranches: ActiveBranches) {
+  const children = groupChildren(list);
+  const path: T[] = [];
+  const visited = new Set<MessageId>();
+  let parentId: MessageId | null = null;
+  for (;;) {
+    const siblings = children.get(parentId);
+    if (!siblings) {
+      break;
+    }
+    const activeId = activeBranches.get(parentId);
+    const active = siblings.find((item) => item.id === activeId) || siblings[siblings.length - 1];
+    // Avoid the endless loop of the invalid `parentId`
+    if (visited.has(active.id)) {
+      break;
+    }
+    visited.add(active.id);
+    path.push(active);
+    parentId = active.id;
+  }
+  return path;
+}
+
+export function getBranchInfo<T extends BranchNode>(
+  list: T[],
+  id: MessageId,
+): XChatBranchInfo | undefined {
+  const parentId = getParentId(list, id);
+  if (parentId === undefined) {
+    return undefined;
+  }
+  const ids = (groupChildren(list).get(parentId) || []).map((item) => item.id);
+  return { index: ids.indexOf(id), total: ids.length, ids };
+}
+
+/**
+ * Set the implicit `parentId` of the messages, so that the tree is kept after the messages are moved or removed
+ */
+export function resolveParentIds<T extends BranchNode>(list: T[]): T[] {
+  return list.map((item, index) =>
+    item.parentId === undefined ? { ...item, parentId: resolveParentId(list, index) } : item,
+  );
+}
+
+/**
+ * Return the ids of all descendants of the message in all branches
+ */
+export function getDescendantIds<T extends BranchNode>(list: T[], id: MessageId) {
+  const children = groupChildren(list);
+  const ids = new Set<MessageId>();
+  const walk = (parentId: MessageId) => {
+    children.get(parentId)?.forEach((item) => {
+      if (!ids.has(item.id) && item.id !== id) {
+        ids.add(item.id);
+        walk(item.id);
+      }
+    });
+  };
+  walk(id);
+  return [...ids];
+}
@@ -1,11 +1,26 @@
 import { useEvent } from '@rc-component/util';
 import React, { useEffect, useState } from 'react';
 import type { AnyObject } from '../_util/type';
-import { AbstractChatProvider } from '../chat-providers';
+import {
+  AbstractChatProvider,
+  ChatRequestContext,
+  ChatRequestHandle,
+  TransformMessage,
+} from '../chat-providers';
+import type { XModelToolCall, XModelUsage } from '../chat-providers/types/model';
+import { parseToolArguments } from '../chat-providers/utils';
 import { ConversationData } from '../x-conversations';
-import { AbstractXRequestClass } from '../x-request';
 import type { SSEOutput } from '../x-stream';
-import { ConversationKey, useChatStore } from './store';
+import type { MessageId } from './branch';
+import {
+  getActivePath,
+  getBranchInfo,
+  getDescendantIds,
+  getParentId,
+  resolveParentIds,
+} from './branch';
+import type { XChatStorage } from './storage';
+import { ConversationKey, chatMessagesStoreHelper, useChatStore } from './store';
 
 export type SimpleType = string | number | boolean | object;
 
@@ -16,6 +31,7 @@ enum MessageStatusEnum {
   success = 'success',
   error = 'error',
   abort = 'abort',
+  queued = 'queued',
 }
 
 export type MessageStatus = `${MessageStatusEnum}`;
@@ -30,6 +46,15 @@ type RequestFallbackFn<Input, MessageInfo, Message> = (
   info: { error: Error; errorInfo?: any; messages: Message[]; messageInfo: MessageInfo },
 ) => Message | Promise<Message>;
 
+/**
+ * @description The local handler of a tool, the returned value is sent to the model as the tool result,
+ * non-string values are serialized as JSON
+ */
+export type XChatToolHandler<ChatMessage = any> = (
+  args: any,
+  info: { toolCall: XModelToolCall; messages: ChatMessage[]; signal: AbortSignal },
+) => any | Promise<any>;
+
 export type RequestParams<Message> = {
   [Key: PropertyKey]: Message;
 } & AnyObject;
@@ -47,6 +72,24 @@ export interface XChatConfig<
   parser?: (message: ChatMessage) => BubbleMessage | BubbleMessage[];
   requestPlaceholder?: ChatMessage | RequestPlaceholderFn<Input, ChatMessage>;
   requestFallback?: ChatMessage | RequestFallbackFn<Input, MessageInfo<ChatMessage>, ChatMessage>;
+  /**
+   * The local handlers by tool name. When the message ends with tool calls reported by
+   * `provider.getToolCalls`, the handlers are run and a follow-up request is sent automatically
+   */
+  tools?: Record<string, XChatToolHandler<ChatMessage>>;
+  /** The max times of running tools in one request, default is 10 */
+  maxToolSteps?: number;
+  /**
+   * The policy of `onRequest` when the conversation is requesting, default is `parallel`.
+   * `queue` sends the messages after the current requests finish, `replace` aborts the current requests,
+   * `reject` ignores the new request
+   */
+  concurrency?: 'parallel' | 'queue' | 'replace' | 'reject';
+  /**
+   * Persist the messages of the conversation with string or number `conversationKey`.
+   * The stored messages replace `defaultMessages` after loading
+   */
+  storage?: XChatStorage<MessageInfo<ChatMessage>>;
 }
 
 export interface MessageInfo<Message extends SimpleType> {
@@ -54,6 +97,11 @@ export interface MessageInfo<Message extends SimpleType> {
   message: Message;
   status: MessageStatus;
   extraInfo?: AnyObject;
+  /**
+   * The id of the previous message in the conversation tree, `null` is the root.
+   * Chained after the previous message in the list when not set
+   */
+  parentId?: number | string | null;
 }
 
 export type DefaultMessageInfo<Message extends SimpleType> = Pick<MessageInfo<Message>, 'message'> &
@@ -76,9 +124,58 @@ function toArray<T>(item: T | T[]): T[] {
   return Array.isArray(item) ? item : [item];
 }
 
-const IsRequestingMap = new Map<ConversationKey, boolean>();
+/**
+ * The state of a request, including the follow-up requests after running tools
+ */
+interface RequestState {
+  conversationKey: ConversationKey;
+  handle?: ChatRequestHandle;
+  toolAbortController?: AbortController;
+  /** The messages created by the request, used to abort it by the message id */
+  messageIds: Set<number | string>;
+  /** Canceled by replacing or removing the messages, so that no fallback message is created */
+  canceled?: boolean;
+}
+
+interface QueuedRequest {
+  messageIds: (number | string)[];
+  /** The useXChat which queues the request, `run` uses its state */
+  owner: symbol;
+  run: () => void;
+}
+
+// The in-flight requests by conversation, they are shared by the useXChat of the same conversation
+const RequestsMap = new Map<ConversationKey, Set<RequestState>>();
+const RequestQueueMap = new Map<ConversationKey, QueuedRequest[]>();
 const generateConversationKey = () => Symbol('ConversationKey');
 
+// Remove the matched requests from the queue, returns the ids of their queued messages
+const cancelQueuedRequests = (
+  conversationKey: ConversationKey,
+  match: (item: QueuedRequest) => boolean,
+) => {
+  const queue = RequestQueueMap.get(conversationKey) || [];
+  const canceledIds = queue.filter(match).flatMap((item) => item.messageIds);
+  if (canceledIds.length) {
+    const restQueue = queue.filter(
+      (item) => !item.messageIds.some((id) => canceledIds.includes(id)),
+    );
+    if (restQueue.length) {
+      RequestQueueMap.set(conversationKey, restQueue);
+    } else {
+      RequestQueueMap.delete(conversationKey);
+    }
+  }
+  return canceledIds;
+};
+
+// The ids are unique across remounts and page reloads, so that they never conflict with the stored messages
+let messageUuid = 0;
+const generateMessageId = () => {
+  messageUuid += 1;
+  return `msg_${Date.now().toString(36)}_${messageUuid.toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+};
+
 export default function useXChat<
   ChatMessage extends SimpleType = string,
   ParsedMessage extends SimpleType = ChatMessage,
@@ -91,13 +188,15 @@ export default function useXChat<
     requestPlaceholder,
     parser,
     provider,
+    tools,
+    maxToolSteps = 10,
+    concurrency = 'parallel',
+    storage,
     conversationKey: originalConversationKey,
   } = config;
 
   // ========================= Agent Messages =========================
-  const idRef = React.useRef(0);
-  const requestHandlerRef = React.useRef<AbstractXRequestClass<Input, Output>>(undefined);
-  const [isRequesting, setIsRequesting] = useState<boolean>(false);
+  const [, setRequestCount] = useState(0);
   // fix #1431, should give a default key to create store
   const [conversationKey, setConversationKey] = useState(
     originalConversationKey || generateConversationKey(),
@@ -109,7 +208,70 @@ export default function useXChat<
     }
   }, [originalConversationKey]);
 
-  const { messages, setMessages, getMessages, setMessage } = useChatStore<MessageInfo<ChatMessage>>(
+  const [instanceKey] = useState(() => Symbol('XChat'));
+
+  // The queued requests run with the state of this useXChat, so they are canceled when it unmounts
+  // or switches the conversation, their messages are removed from the store of the conversation
+  useEffect(
+    () => () => {
+      const canceledIds = cancelQueuedRequests(
+        conversationKey,
+        (item) => item.owner === instanceKey,
+      );
+      if (canceledIds.length) {
+        chatMessagesStoreHelper
+          .get(conversationKey)
+          ?.setMessages((ori: MessageInfo<ChatMessage>[]) =>
+            ori.filter((info) => !canceledIds.includes(info.id)),
+          );
+      }
+    },
+    [conversationKey],
+  );
+
+  // The half-streamed messages are restored as `abort`, the placeholders and queued messages are dropped
+  // and their children are chained to their parents
+  const restoreMessages = (storedMessages: MessageInfo<ChatMessage>[]) => {
+    const isDropped = (info: MessageInfo<ChatMessage>) =>
+      info.status === 'loading' || info.status === 'queued';
+    const droppedParents = new Map<MessageId, MessageId | null | undefined>();
+    storedMessages.forEach((info) => {
+      if (isDropped(info)) {
+        droppedParents.set(info.id, getParentId(storedMessages, info.id));
+      }
+    });
+    const resolveParentId = (parentId: MessageId | null) => {
+      let id: MessageId | null | undefined = parentId;
+      while (id !== null && id !== undefined && droppedParents.has(id)) {
+        id = droppedParents.get(id);
+      }
+      return id ?? null;
+    };
+    return storedMessages
+      .filter((info) => !isDropped(info))
+      .map((info) => {
+        const restored = info.status === 'updating' ? { ...info, status: 'abort' as const } : info;
+        return info.parentId !== undefined &&
+          info.parentId !== null &&
+          droppedParents.has(info.parentId)
+          ? { ...restored, parentId: resolveParentId(info.parentId) }
+          : restored;
+      });
+  };
+
+  const {
+    messages,
+    setMessages,
+    getMessages,
+    setMessage,
+    persist,
+    isLoading: isHistoryLoading,
+    activeBranches,
+    getActiveBranches,
+    setActiveBranch,
+    clearActiveBranches,
+    batchUpdate,
+  } = useChatStore<MessageInfo<ChatMessage>>(
     () =>
       (defaultMessages || []).map((info, index) => ({
         id: `default_${index}`,
@@ -117,27 +279,66 @@ export default function useXChat<
         ...info,
       })),
     conversationKey,
+    { storage, restore: restoreMessages },
   );
 
   const createMessage = (message: ChatMessage, status: MessageStatus, extraInfo?: AnyObject) => {
     const msg: MessageInfo<ChatMessage> = {
-      id: `msg_${idRef.current}`,
+      id: generateMessageId(),
       message,
       status,
     };
     if (extraInfo) {
       msg.extraInfo = extraInfo;
     }
-    idRef.current += 1;
 
     return msg;
   };
 
+  // ============================ Branches ============================
+  // `messages` of the store contains all branches, only the active path is displayed and requested.
+  // The queued messages are not in the tree until they are sent, they are displayed after the active path
+  const isQueued = (info: MessageInfo<ChatMessage>) => info.status === 'queued';
+  const activeMessages = React.useMemo(
+    () => [
+      ...getActivePath(
+        messages.filter((info) => !isQueued(info)),
+        activeBranches,
+      ),
+      ...messages.filter(isQueued),
+    ],
+    [messages, activeBranches],
+  );
+  const getActiveMessages = (msgs = getMessages()) =>
+    getActivePath(
+      msgs.filter((info) => !isQueued(info)),
+      getActiveBranches(),
+    );
+
+  // Chain the new messages after the last active message, or fork a new branch from `parentId`
+  const appendMessages = (
+    ori: MessageInfo<ChatMessage>[],
+    newMessages: MessageInfo<ChatMessage>[],
+    parentId?: MessageId | null,
+  ) => {
+    const activePath = getActiveMessages(ori);
+    let lastId =
+      parentId !== undefined ? parentId : (activePath[activePath.length - 1]?.id ?? null);
+    newMessages.forEach((info) => {
+      info.parentId = lastId;
+      lastId = info.id;
+    });
+    if (parentId !== undefined && newMessages.length) {
+      setActiveBranch(parentId, newMessages[0].id);
+    }
+    return [...ori, ...newMessages];
+  };
+
   // ========================= BubbleMessages =========================
   const parsedMessages = React.useMemo(() => {
     const list: MessageInfo<ParsedMessage>[] = [];
 
-    messages.forEach((agentMsg) => {
+    activeMessages.forEach((agentMsg) => {
       const rawParsedMsg = parser ? parser(agentMsg.message) : agentMsg.message;
       const bubbleMsgs = toArray(rawParsedMsg as ParsedMessage);
 
@@ -156,219 +357,404 @@ export default function useXChat<
     });
 
     return list;
-  }, [messages]);
+  }, [activeMessages]);
+
+  // ============================= Usage ==============================
+  const usage = React.useMemo(
+    () =>
+      messages.reduce<Required<XModelUsage>>(
+        (total, info) => {
+          const messageUsage: XModelUsage | undefined = info.extraInfo?.metadata?.usage;
+          if (messageUsage) {
+            total.promptTokens += messageUsage.promptTokens || 0;
+            total.completionTokens += messageUsage.completionTokens || 0;
+            total.totalTokens += messageUsage.totalTokens || 0;
+            total.reasoningTokens += messageUsage.reasoningTokens || 0;
+            total.cachedTokens += messageUsage.cachedTokens || 0;
+          }
+          return total;
+        },
+        {
+          promptTokens: 0,
+          completionTokens: 0,
+          totalTokens: 0,
+          reasoningTokens: 0,
+          cachedTokens: 0,
+        },
+      ),
+    [messages],
+  );
 
   // ============================ Request =============================
   const getFilteredMessages = (msgs: MessageInfo<ChatMessage>[]) =>
     msgs.filter((info) => info.status !== 'loading').map((info) => info.message);
 
-  provider?.injectGetMessages(() => {
-    return getFilteredMessages(getMessages());
-  });
-  requestHandlerRef.current = provider?.request;
   // For agent to use. Will filter out loading and error message
-  const getRequestMessages = () => getFilteredMessages(getMessages());
+  const getRequestMessages = () => getFilteredMessages(getActiveMessages());
+
+  // Each request still carries its own history, this one is read outside of requests
+  provider?.injectGetMessages(getRequestMessages);
+
+  const updateRequests = (requestState: RequestState, requesting: boolean) => {
+    const requests = RequestsMap.get(requestState.conversationKey) || new Set();
+    if (requesting) {
+      requests.add(requestState);
+      RequestsMap.set(requestState.conversationKey, requests);
+    } else {
+      requests.delete(requestState);
+      if (!requests.size) {
+        RequestsMap.delete(requestState.conversationKey);
+      }
+    }
+    setRequestCount(requests.size);
+  };
+
+  // Send the next queued request after all requests of the conversation finish
+  const runNextRequest = (requestKey: ConversationKey) => {
+    if (RequestsMap.get(requestKey)?.size) {
+      return;
+    }
+    const queue = RequestQueueMap.get(requestKey);
+    const next = queue?.shift();
+    if (!queue?.length) {
+      RequestQueueMap.delete(requestKey);
+    }
+    next?.run();
+  };
 
   const innerOnRequest = (
     requestParams: Partial<Input>,
     opts?: {
       updatingId?: number | string;
       reload?: boolean;
+      /** Fork the local messages as the siblings of the message */
+      editingId?: number | string;
+      /** The queued local messages to send */
+      queuedIds?: (number | string)[];
       extraInfo?: AnyObject;
+      toolStep?: number;
+      requestState?: RequestState;
     },
   ) => {
     if (!provider) {
       return;
     }
-    const { updatingId, reload } = opts || {};
+    const { updatingId, reload, editingId, queuedIds = [], toolStep = 0 } = opts || {};
+    const requestState: RequestState = opts?.requestState || {
+      conversationKey,
+      messageIds: new Set(),
+    };
     let loadingMsgId: number | string | null | undefined = null;
-    const localMessage = provider.transformLocalMessage(requestParams);
+    // The follow-up request after running tools has no local message, the queued request has created them
+    const localMessage =
+      toolStep || queuedIds.length ? [] : provider.transformLocalMessage(requestParams);
     const messages = (Array.isArray(localMessage) ? localMessage : [localMessage]).map((message) =>
       createMessage(message, 'local', opts?.extraInfo),
     );
+    const getPlaceholder = (nextMessages: MessageInfo<ChatMessage>[]) =>
+      typeof requestPlaceholder === 'function'
+        ? // typescript has bug that not get real return type when use `typeof function` check
+          (requestPlaceholder as RequestPlaceholderFn<Input, ChatMessage>)(requestParams, {
+            messages: getFilteredMessages(getActiveMessages(nextMessages)),
+          })
+        : (requestPlaceholder as ChatMessage);
+    // The regenerated message is a sibling branch of the reloaded message, so that it is kept
     if (reload) {
-      loadingMsgId = updatingId;
       setMessages((ori: MessageInfo<ChatMessage>[]) => {
-        const nextMessages = [...ori];
+        const reloadMsg = ori.find((info) => info.id === updatingId)!;
+        const branchMsg = createMessage(reloadMsg.message, 'loading', opts?.extraInfo);
+        const nextMessages = appendMessages(ori, [branchMsg], getParentId(ori, reloadMsg.id));
         if (requestPlaceholder) {
-          let placeholderMsg: ChatMessage;
-          if (typeof requestPlaceholder === 'function') {
-            // typescript has bug that not get real return type when use `typeof function` check
-            placeholderMsg = (requestPlaceholder as RequestPlaceholderFn<Input, ChatMessage>)(
-              requestParams,
-              {
-                messages: getFilteredMessages(nextMessages),
-              },
-            );
-          } else {
-            placeholderMsg = requestPlaceholder;
-          }
-          nextMessages.forEach((info) => {
-            if (info.id === updatingId) {
-              info.status = 'loading';
-              info.message = placeholderMsg;
-              if (opts?.extraInfo) {
-                info.extraInfo = opts?.extraInfo;
-              }
-            }
-          });
+          branchMsg.message = getPlaceholder(nextMessages);
         }
+        loadingMsgId = branchMsg.id;
         return nextMessages;
       });
     } else {
       // Add placeholder message
       setMessages((ori: MessageInfo<ChatMessage>[]) => {
-        let nextMessages = [...ori, ...messages];
+        const queuedMessages = ori
+          .filter((info) => queuedIds.includes(info.id))
+          .map((info) => ({ ...info, status: 'local' as const }));
+        let nextMessages = appendMessages(
+          ori.filter((info) => !queuedIds.includes(info.id)),
+          [...messages, ...queuedMessages],
+          editingId !== undefined ? getParentId(ori, editingId) : undefined,
+        );
         if (requestPlaceholder) {
-          let placeholderMsg: ChatMessage;
-          if (typeof requestPlaceholder === 'function') {
-            // typescript has bug that not get real return type when use `typeof function` check
-            placeholderMsg = (requestPlaceholder as RequestPlaceholderFn<Input, ChatMessage>)(
-              requestParams,
-              {
-                messages: getFilteredMessages(nextMessages),
-              },
-            );
-          } else {
-            placeholderMsg = requestPlaceholder;
-          }
-          const loadingMsg = createMessage(placeholderMsg, 'loading');
+          const loadingMsg = createMessage(getPlaceholder(nextMessages), 'loading');
           loadingMsgId = loadingMsg.id;
 
-          nextMessages = [...nextMessages, loadingMsg];
+          nextMessages = appendMessages(nextMessages, [loadingMsg]);
         }
 
         return nextMessages;
       });
     }
 
+    [...messages.map((info) => info.id), ...queuedIds].forEach((id) => {
+      requestState.messageIds.add(id);
+    });
+    if (loadingMsgId !== null && loadingMsgId !== undefined) {
+      requestState.messageIds.add(loadingMsgId);
+    }
+
     // Request
+    const mergeExtraInfo = (
+      extraInfo: AnyObject | undefined,
+      info: TransformMessage<ChatMessage, Output>,
+    ) => {
+      const nextExtraInfo = provider.transformExtraInfo(info);
+      return nextExtraInfo ? { ...extraInfo, ...nextExtraInfo } : extraInfo;
+    };
     let updatingMsgId: number | string | null | undefined = null;
     const updateMessage = (
       status: MessageStatus,
       chunk: Output,
       chunks: Output[],
       responseHeaders: Headers,
+      // The context of this request from the provider, passed back when transforming its messages
+      context?: ChatRequestContext<ChatMessage>,
     ) => {
-      let msg = getMessages().find((info) => info.id === updatingMsgId);
+      const info = { chunk, status, chunks, responseHeaders, context };
+      let msg = getMessages().find((item) => item.id === updatingMsgId);
       if (!msg) {
-        if (reload && updatingId) {
-          msg = getMessages().find((info) => info.id === updatingId);
+        // The placeholder is updated in place, so that the messages chained after it are kept
+        if (loadingMsgId !== null && loadingMsgId !== undefined) {
+          msg = getMessages().find((item) => item.id === loadingMsgId);
           if (msg) {
             msg.status = status;
-            msg.message = provider.transformMessage({ chunk, status, chunks, responseHeaders });
+            msg.message = provider.transformMessage(info);
+            const extraInfo = mergeExtraInfo(msg.extraInfo, info);
+            if (extraInfo) {
+              msg.extraInfo = extraInfo;
+            }
             setMessages((ori: MessageInfo<ChatMessage>[]) => {
               return [...ori];
             });
             updatingMsgId = msg.id;
+            requestState.messageIds.add(msg.id);
           }
         } else {
           // Create if not exist
-          const transformData = provider.transformMessage({
-            chunk,
-            status,
-            chunks,
-            responseHeaders,
-          });
-          msg = createMessage(transformData, status);
-          setMessages((ori: MessageInfo<ChatMessage>[]) => {
-            const oriWithoutPending = ori.filter(
-              (info: { id: string | number | null | undefined }) => info.id !== loadingMsgId,
-            );
-            return [...oriWithoutPending, msg!];
-          });
+          const transformData = provider.transformMessage(info);
+          msg = createMessage(transformData, status, mergeExtraInfo(undefined, info));
+          setMessages((ori: MessageInfo<ChatMessage>[]) => appendMessages(ori, [msg!]));
           updatingMsgId = msg.id;
+          requestState.messageIds.add(msg.id);
         }
       } else {
         // Update directly
         setMessages((ori: MessageInfo<ChatMessage>[]) => {
-          return ori.map((info: MessageInfo<ChatMessage>) => {
-            if (info.id === updatingMsgId) {
-              const transformData = provider.transformMessage({
-                originMessage: info.message,
-                chunk,
-                chunks,
-                status,
-                responseHeaders,
-              });
+          return ori.map((item: MessageInfo<ChatMessage>) => {
+            if (item.id === updatingMsgId) {
+              const transformInfo = { ...info, originMessage: item.message };
+              const transformData = provider.transformMessage(transformInfo);
+              const extraInfo = mergeExtraInfo(item.extraInfo, transformInfo);
               return {
-                ...info,
+                ...item,
                 message: transformData,
                 status,
+                ...(extraInfo ? { extraInfo } : {}),
               };
             }
-            return info;
+            return item;
           });
         });
       }
 
       return msg;
     };
-    provider.injectRequest({
-      onUpdate: (chunk: Output, headers: Headers) => {
-        updateMessage('updating', chunk, [], headers);
-      },
-      onSuccess: (chunks: Output[], headers: Headers) => {
-        setIsRequesting(false);
-        conversationKey && IsRequestingMap.delete(conversationKey);
-        updateMessage('success', undefined as Output, chunks, headers);
-      },
-      onError: async (error: Error, errorInfo: any) => {
-        setIsRequesting(false);
-        conversationKey && IsRequestingMap.delete(conversationKey);
-        if (requestFallback) {
-          let fallbackMsg: ChatMessage;
-          // Update as error
-          if (typeof requestFallback === 'function') {
-            // typescript has bug that not get real return type when use `typeof function` check
-            const messages = getRequestMessages();
-            const msg = getMessages().find(
-              (info) => info.id === loadingMsgId || info.id === updatingMsgId,
-            );
-
-            fallbackMsg = await (
-              requestFallback as RequestFallbackFn<Input, MessageInfo<ChatMessage>, ChatMessage>
-            )(requestParams, {
-              error,
-              errorInfo,
-              messageInfo: msg as MessageInfo<ChatMessage>,
-              messages,
-            });
-          } else {
-            fallbackMsg = requestFallback;
+    updateRequests(requestState, true);
+    requestState.handle = provider.sendRequest(
+      requestParams,
+      {
+        onUpdate: (chunk: Output, headers: Headers, context) => {
+          updateMessage('updating', chunk, [], headers, context);
+        },
+        onSuccess: (chunks: Output[], headers: Headers, context) => {
+          updateMessage('success', undefined as Output, chunks, headers, context);
+          const msg = getMessages().find((info) => info.id === updatingMsgId);
+          const toolCalls = tools && msg ? provider.getToolCalls(msg.message, context) : [];
+          if (toolCalls.length && toolStep < maxToolSteps) {
+            runTools(toolCalls, requestParams, toolStep + 1, requestState, context);
+            return;
           }
-          setMessages((ori: MessageInfo<ChatMessage>[]) => [
-            ...ori.filter(
-              (info: { id: string | number | null | undefined }) =>
-                info.id !== loadingMsgId && info.id !== updatingMsgId,
-            ),
-            createMessage(fallbackMsg, error.name === 'AbortError' ? 'abort' : 'error'),
-          ]);
-        } else {
-          // Remove directly
-          setMessages((ori: MessageInfo<ChatMessage>[]) => {
-            return ori.map((info: MessageInfo<ChatMessage>) => {
-              if (info.id === loadingMsgId || info.id === updatingMsgId) {
-                return {
-                  ...info,
-                  status: error.name === 'AbortError' ? 'abort' : 'error',
-                };
+          updateRequests(requestState, false);
+          persist();
+          runNextRequest(requestState.conversationKey);
+        },
+        onError: async (error: Error, errorInfo: any) => {
+          updateRequests(requestState, false);
+          // The canceled request only marks its messages, they are replaced or removed on purpose
+          if (requestFallback && !requestState.canceled) {
+            let fallbackMsg: ChatMessage;
+            // Update as error
+            if (typeof requestFallback === 'function') {
+              // typescript has bug that not get real return type when use `typeof function` check
+              const messages = getRequestMessages();
+              const msg = getMessages().find(
+                (info) => info.id === loadingMsgId || info.id === updatingMsgId,
+              );
+
+              fallbackMsg = await (
+                requestFallback as RequestFallbackFn<Input, MessageInfo<ChatMessage>, ChatMessage>
+              )(requestParams, {
+                error,
+                errorInfo,
+                messageInfo: msg as MessageInfo<ChatMessage>,
+                messages,
+              });
+            } else {
+              fallbackMsg = requestFallback;
+            }
+            const status = error.name === 'AbortError' ? 'abort' : 'error';
+            setMessages((ori: MessageInfo<ChatMessage>[]) => {
+              const failedMsg = ori.find(
+                (info) => info.id === loadingMsgId || info.id === updatingMsgId,
+              );
+              // Take the place of the failed message in the tree
+              if (failedMsg) {
+                return ori.map((info) =>
+                  info === failedMsg ? { ...info, message: fallbackMsg, status } : info,
+                );
+              }
+              // The failed message has been removed
+              if (
+                (loadingMsgId !== null && loadingMsgId !== undefined) ||
+                (updatingMsgId !== null && updatingMsgId !== undefined)
+              ) {
+                return ori;
               }
-              return info;
+              return appendMessages(ori, [createMessage(fallbackMsg, status)]);
             });
-          });
-        }
+          } else {
+            // Remove directly
+            setMessages((ori: MessageInfo<ChatMessage>[]) => {
+              return ori.map((info: MessageInfo<ChatMessage>) => {
+                if (info.id === loadingMsgId || info.id === updatingMsgId) {
+                  return {
+                    ...info,
+                    status: error.name === 'AbortError' ? 'abort' : 'error',
+                  };
+                }
+                return info;
+              });
+            });
+          }
+          persist();
+          runNextRequest(requestState.conversationKey);
+        },
       },
+      { messages: getRequestMessages() },
+    );
+  };
+
+  const runTools = async (
+    toolCalls: XModelToolCall[],
+    requestParams: Partial<Input>,
+    toolStep: number,
+    requestState: RequestState,
+    context?: ChatRequestContext<ChatMessage>,
+  ) => {
+    const controller = new AbortController();
+    requestState.toolAbortController = controller;
+    // Every tool call is shown as a message, it is `loading` until the handler finishes
+    const toolMessages = toolCalls.map((toolCall) =>
+      createMessage(provider!.transformToolMessage(toolCall, '', context), 'loading', {
+        toolCall,
+        toolStep,
+      }),
+    );
+    setMessages((ori: MessageInfo<ChatMessage>[]) => appendMessages(ori, toolMessages));
+    toolMessages.forEach((info) => {
+      requestState.messageIds.add(info.id);
     });
-    setIsRequesting(true);
-    conversationKey && IsRequestingMap.set(conversationKey, true);
-    provider.request.run(provider.transformParams(requestParams, provider.request.options));
+
+    await Promise.all(
+      toolCalls.map(async (toolCall, index) => {
+        const handler = tools?.[toolCall.function.name];
+        let status: MessageStatus = 'success';
+        let content: string;
+        try {
+          if (!handler) {
+            throw new Error(`tool [${toolCall.function.name}] is not found`);
+          }
+          const result = await handler(parseToolArguments(toolCall.function.arguments), {
+            toolCall,
+            messages: getRequestMessages(),
+            signal: controller.signal,
+          });
+          content = typeof result === 'string' ? result : (JSON.stringify(result) ?? '');
+        } catch (error) {
+          // The error is sent to the model as the tool result, so that it can recover
+          status = 'error';
+          content = `Error: ${error instanceof Error ? error.message : String(error)}`;
+        }
+        if (controller.signal.aborted) {
+          return;
+        }
+        setMessages((ori: MessageInfo<ChatMessage>[]) =>
+          ori.map((info) =>
+            info.id === toolMessages[index].id
+              ? {
+                  ...info,
+                  message: provider!.transformToolMessage(toolCall, content, context),
+                  status,
+                }
+              : info,
+          ),
+        );
+      }),
+    );
+
+    if (controller.signal.aborted) {
+      const toolMessageIds = toolMessages.map((info) => info.id);
+      setMessages((ori: MessageInfo<ChatMessage>[]) =>
+        ori.map((info) =>
+          toolMessageIds.includes(info.id) && info.status === 'loading'
+            ? { ...info, status: 'abort' }
+            : info,
+        ),
+      );
+      updateRequests(requestState, false);
+      runNextRequest(requestState.conversationKey);
+      return;
+    }
+    innerOnRequest(requestParams, { toolStep, requestState });
   };
 
   const onRequest = useEvent((requestParams: Partial<Input>, opts?: { extraInfo: AnyObject }) => {
     if (!provider) {
       throw new Error('provider is required');
     }
+    const queue = RequestQueueMap.get(conversationKey);
+    if (concurrency !== 'parallel' && (RequestsMap.get(conversationKey)?.size || queue?.length)) {
+      if (concurrency === 'reject') {
+        console.warn('The request is rejected because the conversation is requesting!');
+        return;
+      }
+      if (concurrency === 'replace') {
+        cancelRequests(undefined, true);
+      } else {
+        // The queued messages are displayed at once, and sent after the current requests finish
+        const localMessage = provider.transformLocalMessage(requestParams);
+        const queuedMessages = toArray(localMessage).map((message) =>
+          createMessage(message, 'queued', opts?.extraInfo),
+        );
+        const queuedIds = queuedMessages.map((info) => info.id);
+        setMessages((ori: MessageInfo<ChatMessage>[]) => [...ori, ...queuedMessages]);
+        RequestQueueMap.set(conversationKey, [
+          ...(queue || []),
+          {
+            messageIds: queuedIds,
+            owner: instanceKey,
+            run: () => innerOnRequest(requestParams, { queuedIds, extraInfo: opts?.extraInfo }),
+          },
+        ]);
+        return;
+      }
+    }
     innerOnRequest(requestParams, opts);
   });
 
@@ -390,19 +776,198 @@ export default function useXChat<
     });
   };
 
+  /**
+   * Abort the request which creates the message, or all requests of the conversation without `messageId`.
+   * The queued requests are canceled and their messages are removed
+   */
+  const abort = (messageId?: number | string) => {
+    if (!provider) {
+      throw new Error('provider is required');
+    }
+    // Only the ids are accepted, so that `onClick={abort}` which passes the event aborts all requests
+    cancelRequests(
+      typeof messageId === 'string' || typeof messageId === 'number' ? messageId : undefined,
+    );
+  };
+
+  const cancelRequests = (messageId?: number | string, canceled = false) => {
+    const canceledIds = cancelQueuedRequests(
+      conversationKey,
+      (item) => messageId === undefined || item.messageIds.includes(messageId),
+    );
+    if (canceledIds.length) {
+      setMessages((ori: MessageInfo<ChatMessage>[]) =>
+        ori.filter((info) => !canceledIds.includes(info.id)),
+      );
+    }
+    RequestsMap.get(conversationKey)?.forEach((requestState) => {
+      if (messageId === undefined || requestState.messageIds.has(messageId)) {
+        requestState.canceled ||= canceled;
+        requestState.handle?.abort();
+        requestState.toolAbortController?.abort();
+      }
+    });
+  };
+
+  /**
+   * Edit the message as a new branch, the local messages of `requestParams` are the siblings of it
+   */
+  const onEdit = (
+    id: string | number,
+    requestParams: Partial<Input>,
+    opts?: { extraInfo: AnyObject },
+  ) => {
+    if (!provider) {
+      throw new Error('provider is required');
+    }
+    if (!id || !getMessages().find((info) => info.id === id)) {
+      throw new Error(`message [${id}] is not found`);
+    }
+    innerOnRequest(requestParams, { editingId: id, extraInfo: opts?.extraInfo });
+  };
+
+  /**
+   * Switch to the branch of the message, the descendants keep their active branches
+   */
+  const switchBranch = (id: string | number) => {
+    const parentId = getParentId(getMessages(), id);
+    if (parentId === undefined) {
+      throw new Error(`message [${id}] is not found`);
+    }
+    setActiveBranch(parentId, id);
+  };
+
+  // ============================ Messages ============================
+  const isPending = (info: MessageInfo<ChatMessage>) =>
+    info.status === 'loading' || info.status === 'updating' || info.status === 'queued';
+
+  // Set the implicit `parentId` of the sent messages before moving or removing them
+  const resolveTree = (msgs: MessageInfo<ChatMessage>[]) => [
+    ...resolveParentIds(msgs.filter((info) => !isQueued(info))),
+    ...msgs.filter(isQueued),
+  ];
+
+  /**
+   * Remove the message and chain its children to its parent, the request of the pending message is aborted
+   */
+  const removeMessage = (id: string | number) => {
+    const target = getMessages().find((info) => info.id === id);
+    if (!target) {
+      return false;
+    }
+    if (isPending(target)) {
+      cancelRequests(id, true);
+    }
+    batchUpdate(() => {
+      const list = resolveTree(getMessages());
+      const removed = list.find((info) => info.id === id);
+      // The queued message is removed with its request
+      if (!removed) {
+        return;
+      }
+      const activePath = getActiveMessages(list);
+      const nextActive = activePath[activePath.indexOf(removed) + 1];
+      setMessages(
+        list
+          .filter((info) => info !== removed)
+          .map((info) => (info.parentId === id ? { ...info, parentId: removed.parentId } : info)),
+      );
+      // Keep the messages after the removed message displayed
+      if (activePath.includes(removed) && nextActive) {
+        setActiveBranch(removed.parentId ?? null, nextActive.id);
+      }
+    });
+    return true;
+  };
+
+  /**
+   * Insert the message after `afterId`, `null` is the root of the conversation.
+   * The children of `afterId` are chained after the inserted message
+   */
+  const insertMessage = (
+    afterId: string | number | null,
+    info: DefaultMessageInfo<ChatMessage>,
+  ) => {
+    if (afterId !== null && !getMessages().find((item) => item.id === afterId)) {
+      throw new Error(`message [${afterId}] is not found`);
+    }
+    if (info.id !== undefined && getMessages().find((item) => item.id === info.id)) {
+      throw new Error(`message [${info.id}] already exists`);
+    }
+    const msg: MessageInfo<ChatMessage> = {
+      id: generateMessageId(),
+      status: 'local',
+      ...info,
+      parentId: afterId,
+    };
+    batchUpdate(() => {
+      const list = resolveTree(getMessages());
+      const index = afterId === null ? 0 : list.findIndex((item) => item.id === afterId) + 1;
+      const activeId = getActiveBranches().get(afterId);
+      setMessages(
+        [...list.slice(0, index), msg, ...list.slice(index)].map((item) =>
+          item !== msg && item.parentId === afterId ? { ...item, parentId: msg.id } : item,
+        ),
+      );
+      // The active branch of `afterId` moves to the inserted message
+      if (activeId !== undefined) {
+        setActiveBranch(afterId, msg.id);
+        setActiveBranch(msg.id, activeId);
+      }
+    });
+    return msg;
+  };
+
+  /**
+   * Remove all descendants of the message in all branches, their requests are aborted
+   */
+  const truncateAfter = (id: string | number) => {
+    const list = getMessages().filter((info) => !isQueued(info));
+    if (!list.find((info) => info.id === id)) {
+      throw new Error(`message [${id}] is not found`);
+    }
+    const ids = getDescendantIds(list, id);
+    batchUpdate(() => {
+      list.forEach((info) => {
+        if (ids.includes(info.id) && isPending(info)) {
+          cancelRequests(info.id, true);
+        }
+      });
+      setMessages((ori: MessageInfo<ChatMessage>[]) =>
+        ori.filter((info) => !ids.includes(info.id)),
+      );
+    });
+  };
+
+  /**
+   * Abort all requests and remove all messages of the conversation
+   */
+  const clearMessages = () => {
+    batchUpdate(() => {
+      cancelRequests(undefined, true);
+      setMessages([]);
+      clearActiveBranches();
+    });
+  };
+
   return {
     onRequest,
-    messages,
+    messages: activeMessages,
     parsedMessages,
     setMessages,
     setMessage,
-    abort: () => {
-      if (!provider) {
-        throw new Error('provider is required');
-      }
-      requestHandlerRef.current?.abort();
-    },
-    isRequesting: conversationKey ? IsRequestingMap?.get(conversationKey) || false : isRequesting,
+    removeMessage,
+    insertMessage,
+    truncateAfter,
+    clearMessages,
+    batchUpdate,
+    abort,
+    isRequesting: !!RequestsMap.get(conversationKey)?.size,
+    isHistoryLoading,
     onReload,
+    onEdit,
+    getBranchInfo: (id: string | number) => getBranchInfo(getMessages(), id),
+    switchBranch,
+    usage,
   } as const;
 }
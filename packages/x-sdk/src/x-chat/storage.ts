@@ -0,0 +1,144 @@
+import type { MessageId } from './branch';
+import type { ConversationKey } from './store';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * The stored conversation
+ */
+export interface XChatStorageData<Message = any> {
+  messages: Message[];
+  /** The entries of the active child by the parent id, `null` is the root of the conversation */
+  activeBranches?: [MessageId | null, MessageId][];
+}
+
+/**
+ * @description The storage adapter to persist the messages of conversations.
+ * Only conversations with string or number keys are persisted
+ */
+export interface XChatStorage<Message = any> {
+  /** Return `undefined` when the conversation has not been stored */
+  load: (conversationKey: ConversationKey) => MaybePromise<XChatStorageData<Message> | undefined>;
+  save: (conversationKey: ConversationKey, data: XChatStorageData<Message>) => MaybePromise<void>;
+  delete: (conversationKey: ConversationKey) => MaybePromise<void>;
+}
+
+export interface LocalStorageChatStorageOptions {
+  /** The prefix of the localStorage key, default is `x-chat:` */
+  prefix?: string;
+  /** Default is `window.localStorage`, `window.sessionStorage` is also supported */
+  storage?: Storage;
+}
+
+/**
+ * Store the messages as JSON in localStorage, which is synchronous and limited to about 5MB,
+ * use `IndexedDBChatStorage` for large conversations or base64 attachments
+ */
+export class LocalStorageChatStorage<Message = any> implements XChatStorage<Message> {
+  private prefix: string;
+  private storage?: Storage;
+
+  constructor(options: LocalStorageChatStorageOptions = {}) {
+    this.prefix = options.prefix ?? 'x-chat:';
+    this.storage = options.storage ?? globalThis.localStorage;
+  }
+
+  private getKey(conversationKey: ConversationKey) {
+    return `${this.prefix}${String(conversationKey)}`;
+  }
+
+  load = (conversationKey: ConversationKey) => {
+    const value = this.storage?.getItem(this.getKey(conversationKey));
+    return value ? (JSON.parse(value) as XChatStorageData<Message>) : undefined;
+  };
+
+  save = (conversationKey: ConversationKey, data: XChatStorageData<Message>) => {
+    this.storage?.setItem(this.getKey(conversationKey), JSON.stringify(data));
+  };
+
+  delete = (conversationKey: ConversationKey) => {
+    this.storage?.removeItem(this.getKey(conversationKey));
+  };
+}
+
+export interface IndexedDBChatStorageOptions {
+  /** Default is `ant-design-x` */
+  dbName?: string;
+  /** Default is `messages` */
+  storeName?: string;
+}
+
+/**
+ * Store the messages in IndexedDB by structured clone, the messages must not contain functions
+ */
+export class IndexedDBChatStorage<Message = any> implements XChatStorage<Message> {
+  private dbName: string;
+  private storeName: string;
+  private dbPromise?: Promise<IDBDatabase>;
+
+  constructor(options: IndexedDBChatStorageOptions = {}) {
+    this.dbName = options.dbName ?? 'ant-design-x';
+    this.storeName = options.storeName ?? 'messages';
+  }
+
+  private getDB() {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = globalThis.indexedDB.open(this.dbName);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow to retry opening on the next call
+      this.dbPromise.catch(() => {
+        this.dbPromise = undefined;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) {
+    const db = await this.getDB();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  load = (conversationKey: ConversationKey) =>
+    this.run<XChatStorageData<Message> | undefined>('readonly', (store) =>
+      store.get(conversationKey as IDBValidKey),
+    );
+
+  save = async (conversationKey: ConversationKey, data: XChatStorageData<Message>) => {
+    await this.run('readwrite', (store) => store.put(data, conversationKey as IDBValidKey));
+  };
+
+  delete = async (conversationKey: ConversationKey) => {
+    await this.run('readwrite', (store) => store.delete(conversationKey as IDBValidKey));
+  };
+}
+
+/**
+ * Keep the messages in memory, which is lost after refreshing, mainly used for tests
+ */
+export class MemoryChatStorage<Message = any> implements XChatStorage<Message> {
+  private data = new Map<ConversationKey, string>();
+
+  load = (conversationKey: ConversationKey) => {
+    const value = this.data.get(conversationKey);
+    return value ? (JSON.parse(value) as XChatStorageData<Message>) : undefined;
+  };
+
+  save = (conversationKey: ConversationKey, data: XChatStorageData<Message>) => {
+    // Serialize to avoid sharing the message objects which are modified in place by the store
+    this.data.set(conversationKey, JSON.stringify(data));
+  };
+
+  delete = (conversationKey: ConversationKey) => {
+    this.data.delete(conversationKey);
+  };
+}
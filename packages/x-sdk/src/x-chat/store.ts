@@ -1,7 +1,15 @@
 import { useEffect, useState, useSyncExternalStore } from 'react';
+import type { ActiveBranches, MessageId } from './branch';
+import type { XChatStorage } from './storage';
 
 export type ConversationKey = string | number | symbol;
 
+export interface ChatMessagesStoreOptions<T> {
+  storage?: XChatStorage<T>;
+  /** Transform the stored messages before restoring them */
+  restore?: (messages: T[]) => T[];
+}
+
 export const chatMessagesStoreHelper = {
   _chatMessagesStores: new Map<ConversationKey, ChatMessagesStore<any>>(),
   get: (conversationKey: ConversationKey) => {
@@ -21,6 +29,7 @@ export const chatMessagesStoreHelper = {
 
 export class ChatMessagesStore<T extends { id: number | string }> {
   private messages: T[] = [];
+  private activeBranches: ActiveBranches = new Map();
   private listeners: (() => void)[] = [];
   private conversationKey: ConversationKey | undefined;
 
@@ -29,12 +38,35 @@ export class ChatMessagesStore<T extends { id: number | string }> {
   private pendingEmit = false;
   private readonly throttleInterval: number = 50;
 
+  // Persist state, the messages are saved at most once per interval during streaming
+  private storage?: XChatStorage<T>;
+  private restore?: (messages: T[]) => T[];
+  private loading = false;
+  private defaultIds: (string | number)[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly persistInterval: number = 1000;
+
+  // Batch state, the listeners are notified once after the outermost batch
+  private batchDepth = 0;
+  private batchChanged = false;
+
   private emitListeners() {
     this.listeners.forEach((listener) => {
       listener();
     });
   }
 
+  private notify(throttle: boolean) {
+    if (this.batchDepth) {
+      this.batchChanged = true;
+    } else if (throttle) {
+      this.throttledEmitListeners();
+    } else {
+      this.emitListeners();
+    }
+  }
+
   private throttledEmitListeners() {
     if (!this.throttleTimer) {
       // Leading edge: execute immediately
@@ -54,14 +86,150 @@ export class ChatMessagesStore<T extends { id: number | string }> {
     }
   }
 
-  constructor(defaultMessages: T[], conversationKey?: ConversationKey) {
+  constructor(
+    defaultMessages: T[],
+    conversationKey?: ConversationKey,
+    options: ChatMessagesStoreOptions<T> = {},
+  ) {
     this.setMessagesInternal(defaultMessages, false);
     if (conversationKey) {
       this.conversationKey = conversationKey;
       chatMessagesStoreHelper.set(this.conversationKey, this);
     }
+    // The generated symbol key changes after refreshing, so it is not persisted
+    if (
+      options.storage &&
+      (typeof conversationKey === 'string' || typeof conversationKey === 'number')
+    ) {
+      this.storage = options.storage;
+      this.restore = options.restore;
+      this.loading = true;
+      this.defaultIds = defaultMessages.map((item) => item.id);
+    }
+  }
+
+  private schedulePersist() {
+    if (!this.persistTimer) {
+      this.persistTimer = setTimeout(() => {
+        this.persistTimer = null;
+        this.persist();
+      }, this.persistInterval);
+    }
   }
 
+  private async loadInternal() {
+    let added: T[] = [];
+    try {
+      const stored = await this.storage!.load(this.conversationKey!);
+      if (stored) {
+        // Keep the messages added while loading, such as sending a message before the history is loaded
+        added = this.messages.filter((item) => !this.defaultIds.includes(item.id));
+        this.messages = [
+          ...(this.restore ? this.restore(stored.messages) : stored.messages),
+          ...added,
+        ];
+        // The branches switched while loading take precedence
+        this.activeBranches = new Map([...(stored.activeBranches || []), ...this.activeBranches]);
+      }
+    } catch (error) {
+      console.error('Failed to load the stored messages:', error);
+    }
+    this.loading = false;
+    this.emitListeners();
+    if (added.length) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Load the stored messages to replace the default messages, only load once
+   */
+  load = () => {
+    if (!this.storage) {
+      return Promise.resolve();
+    }
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadInternal();
+    }
+    return this.loadPromise;
+  };
+
+  /**
+   * Save the messages and the active branches immediately, the stored messages are deleted when there is no message.
+   * Skipped before the stored messages are loaded to avoid overwriting them
+   */
+  persist = async () => {
+    if (!this.storage || this.loading) {
+      return;
+    }
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    try {
+      if (this.messages.length) {
+        await this.storage.save(this.conversationKey!, {
+          messages: this.messages,
+          activeBranches: [...this.activeBranches],
+        });
+      } else {
+        await this.storage.delete(this.conversationKey!);
+      }
+    } catch (error) {
+      console.error('Failed to save the messages:', error);
+    }
+  };
+
+  getLoading = () => {
+    return this.loading;
+  };
+
+  getActiveBranches = () => {
+    return this.activeBranches;
+  };
+
+  /**
+   * Set the active child of the parent, `null` is the root of the conversation
+   */
+  setActiveBranch = (parentId: MessageId | null, id: MessageId) => {
+    if (this.activeBranches.get(parentId) !== id) {
+      this.activeBranches = new Map(this.activeBranches).set(parentId, id);
+      if (this.storage && !this.loading) {
+        this.schedulePersist();
+      }
+      this.notify(false);
+    }
+  };
+
+  /**
+   * Reset the active branches, every parent shows its latest child again
+   */
+  clearActiveBranches = () => {
+    if (this.activeBranches.size) {
+      this.activeBranches = new Map();
+      if (this.storage && !this.loading) {
+        this.schedulePersist();
+      }
+      this.notify(false);
+    }
+  };
+
+  /**
+   * Run the updates in `fn` and notify the listeners only once
+   */
+  batchUpdate = <R>(fn: () => R) => {
+    this.batchDepth += 1;
+    try {
+      return fn();
+    } finally {
+      this.batchDepth -= 1;
+      if (!this.batchDepth && this.batchChanged) {
+        this.batchChanged = false;
+        this.emitListeners();
+      }
+    }
+  };
+
   private setMessagesInternal = (messages: T[] | ((ori: T[]) => T[]), throttle = true) => {
     let list: T[];
     if (typeof messages === 'function') {
@@ -70,11 +238,10 @@ export class ChatMessagesStore<T extends { id: number | string }> {
       list = messages as T[];
     }
     this.messages = [...list];
-    if (throttle) {
-      this.throttledEmitListeners();
-    } else {
-      this.emitListeners();
+    if (this.storage && !this.loading) {
+      this.schedulePersist();
     }
+    this.notify(throttle);
     return true;
   };
 
@@ -110,7 +277,7 @@ export class ChatMessagesStore<T extends { id: number | string }> {
     return false;
   };
 
-  removeMessage = (id: string) => {
+  removeMessage = (id: string | number) => {
     const index = this.messages.findIndex((item) => item.id === id);
     if (index !== -1) {
       this.messages.splice(index, 1);
@@ -151,6 +318,10 @@ export class ChatMessagesStore<T extends { id: number | string }> {
     }
     this.pendingEmit = false;
     this.listeners = [];
+    // Flush the pending changes
+    if (this.persistTimer) {
+      this.persist();
+    }
   };
 }
 
@@ -159,6 +330,7 @@ type Getter<T> = () => T;
 export function useChatStore<T extends { id: number | string }>(
   defaultValue: T[] | Getter<T[]>,
   conversationKey: ConversationKey,
+  options?: ChatMessagesStoreOptions<T>,
 ) {
   const createStore = () => {
     if (chatMessagesStoreHelper.get(conversationKey)) {
@@ -166,7 +338,7 @@ export function useChatStore<T extends { id: number | string }>(
     }
     const messages =
       typeof defaultValue === 'function' ? (defaultValue as Getter<T[]>)() : defaultValue;
-    const store = new ChatMessagesStore<T>(messages || [], conversationKey);
+    const store = new ChatMessagesStore<T>(messages || [], conversationKey, options);
     return store;
   };
   const [store, setStore] = useState(createStore);
@@ -175,7 +347,17 @@ export function useChatStore<T extends { id: number | string }>(
     setStore(createStore());
   }, [conversationKey]);
 
+  useEffect(() => {
+    store.load();
+  }, [store]);
+
   const messages = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+  const isLoading = useSyncExternalStore(store.subscribe, store.getLoading, store.getLoading);
+  const activeBranches = useSyncExternalStore(
+    store.subscribe,
+    store.getActiveBranches,
+    store.getActiveBranches,
+  );
 
   return {
     messages,
@@ -185,5 +367,12 @@ export function useChatStore<T extends { id: number | string }>(
     getMessage: store.getMessage,
     setMessages: store.setMessages,
     getMessages: store.getMessages,
+    persist: store.persist,
+    isLoading,
+    activeBranches,
+    getActiveBranches: store.getActiveBranches,
+    setActiveBranch: store.setActiveBranch,
+    clearActiveBranches: store.clearActiveBranches,
+    batchUpdate: store.batchUpdate,
   };
 }
@@ -60,4 +60,28 @@ describe('XMCPClient Function', () => {
     const tools = await client.tools();
     expect(tools).toEqual(mockTools);
   });
+
+  test('should share the tools request only when dedupe is set', async () => {
+    const createResponse = () => ({
+      ok: true,
+      status: 200,
+      headers: {
+        get: jest.fn().mockReturnValue('application/json; charset=utf-8'),
+      },
+      json: jest.fn().mockResolvedValueOnce(mockTools),
+    });
+    mockedXFetch.mockReset();
+    mockedXFetch.mockImplementation(async () => createResponse());
+
+    const client = XMCPClient(baseURL, options);
+    await Promise.all([client.tools(), client.tools()]);
+    expect(mockedXFetch).toHaveBeenCalledTimes(2);
+
+    mockedXFetch.mockClear();
+    const dedupeClient = XMCPClient(baseURL, { ...options, dedupe: true });
+    const [tools1, tools2] = await Promise.all([dedupeClient.tools(), dedupeClient.tools()]);
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect(tools1).toEqual(mockTools);
+    expect(tools2).toEqual(mockTools);
+  });
 });
@@ -17,7 +17,10 @@ export interface XMCPTool {
   };
 }
 
-export type XMCPClientOptions = Pick<XRequestOptions, 'params' | 'headers' | 'timeout' | 'fetch'>;
+export type XMCPClientOptions = Pick<
+  XRequestOptions,
+  'params' | 'headers' | 'timeout' | 'fetch' | 'dedupe'
+>;
 
 class XMCPClientClass {
   readonly baseURL: string;
@@ -1,6 +1,6 @@
 import { enableFetchMocks } from 'jest-fetch-mock';
 import type { XRequestCallbacks, XRequestOptions } from '../index';
-import XRequest from '../index';
+import XRequest, { AbstractXRequestClass } from '../index';
 
 enableFetchMocks();
 
@@ -39,4 +39,71 @@ describe('XRequest Class', () => {
       new DOMException('The operation was aborted. ', 'AbortError'),
     );
   });
+
+  test('should run the forked requests independently', async () => {
+    (fetch as any).mockResponse(() =>
+      Promise.resolve({
+        body: '{"content": "ok"}',
+        headers: {
+          'content-type': 'application/json; charset=utf-8',
+        },
+      }),
+    );
+    const onDone = jest.fn();
+    const request = XRequest(baseURL, { ...options, manual: true });
+    request.on('done', onDone);
+    const callbacks1 = { onSuccess: jest.fn(), onError: jest.fn() };
+    const callbacks2 = { onSuccess: jest.fn(), onError: jest.fn() };
+    const request1 = request.fork({ callbacks: callbacks1 });
+    const request2 = request.fork({ callbacks: callbacks2 });
+    const onForkDone = jest.fn();
+    request2.on('done', onForkDone);
+    expect(request1).not.toBe(request);
+    request1.run();
+    request2.run();
+    request1.abort();
+    await Promise.all([request1.asyncHandler, request2.asyncHandler]);
+    expect(callbacks1.onError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'AbortError' }),
+    );
+    expect(callbacks1.onSuccess).not.toHaveBeenCalled();
+    expect(callbacks2.onSuccess).toHaveBeenCalledWith([{ content: 'ok' }], expect.anything());
+    // the events are also emitted to the listeners of the original request
+    expect(onDone).toHaveBeenCalledTimes(1);
+    expect(onForkDone).toHaveBeenCalledTimes(1);
+    expect(request.options.callbacks).toBe(callbacks);
+  });
+
+  test('should fork a copy of the custom request class', () => {
+    class CustomRequest extends AbstractXRequestClass<any, any> {
+      get asyncHandler() {
+        return Promise.resolve();
+      }
+      get isTimeout() {
+        return false;
+      }
+      get isStreamTimeout() {
+        return false;
+      }
+      get isRequesting() {
+        return false;
+      }
+      get manual() {
+        return true;
+      }
+      run() {
+        this.options.callbacks?.onSuccess([], new Headers());
+      }
+      abort() {}
+    }
+    const request = new CustomRequest(baseURL, { callbacks });
+    const forkCallbacks = { onSuccess: jest.fn(), onError: jest.fn() };
+    const forked = request.fork({ callbacks: forkCallbacks });
+    expect(forked).toBeInstanceOf(CustomRequest);
+    expect(forked).not.toBe(request);
+    expect(forked.baseURL).toBe(baseURL);
+    expect(request.options.callbacks).toBe(callbacks);
+    forked.run();
+    expect(forkCallbacks.onSuccess).toHaveBeenCalledTimes(1);
+  });
 });
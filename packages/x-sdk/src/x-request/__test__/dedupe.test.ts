@@ -0,0 +1,188 @@
+import type { XRequestCallbacks } from '../index';
+import XRequest, { clearXRequestCache } from '../index';
+import xFetch from '../x-fetch';
+
+jest.mock('../x-fetch', () => jest.fn());
+
+const baseURL = 'https://api.example.com/v1/tools';
+
+function createControlledSSEResponse() {
+  let streamController!: ReadableStreamDefaultController<Uint8Array>;
+  const response = {
+    headers: {
+      get: jest.fn().mockReturnValue('text/event-stream'),
+    },
+    body: new ReadableStream<Uint8Array>({
+      start(controller) {
+        streamController = controller;
+      },
+    }),
+  };
+  return {
+    response,
+    push: (event: string) => streamController.enqueue(new TextEncoder().encode(event)),
+    close: () => streamController.close(),
+  };
+}
+
+function createJSONResponse(data: any) {
+  return {
+    headers: {
+      get: jest.fn().mockReturnValue('application/json'),
+    },
+    json: jest.fn().mockResolvedValue(data),
+  };
+}
+
+function createCallbacks(): XRequestCallbacks<any> {
+  return {
+    onSuccess: jest.fn(),
+    onError: jest.fn(),
+    onUpdate: jest.fn(),
+  };
+}
+
+const wait = (ms = 10) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('XRequest dedupe', () => {
+  const mockedXFetch = xFetch as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedXFetch.mockReset();
+    clearXRequestCache();
+  });
+
+  test('should share a single in-flight request among identical requests', async () => {
+    mockedXFetch.mockResolvedValueOnce(createJSONResponse({ tools: [] }));
+    const callbacks1 = createCallbacks();
+    const callbacks2 = createCallbacks();
+    const request1 = XRequest(baseURL, { params: { a: 1 }, dedupe: true, callbacks: callbacks1 });
+    const request2 = XRequest(baseURL, { params: { a: 1 }, dedupe: true, callbacks: callbacks2 });
+    await Promise.all([request1.asyncHandler, request2.asyncHandler]);
+
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect(callbacks1.onSuccess).toHaveBeenCalledWith([{ tools: [] }], expect.anything());
+    expect(callbacks2.onSuccess).toHaveBeenCalledWith([{ tools: [] }], expect.anything());
+    expect(request1.isRequesting).toBe(false);
+    expect(request2.isRequesting).toBe(false);
+  });
+
+  test('should not share requests with different params or without dedupe', async () => {
+    mockedXFetch.mockImplementation(() => Promise.resolve(createJSONResponse({})));
+    await Promise.all([
+      XRequest(baseURL, { params: { a: 1 }, dedupe: true, callbacks: createCallbacks() })
+        .asyncHandler,
+      XRequest(baseURL, { params: { a: 2 }, dedupe: true, callbacks: createCallbacks() })
+        .asyncHandler,
+      XRequest(baseURL, { params: { a: 1 }, callbacks: createCallbacks() }).asyncHandler,
+    ]);
+    expect(mockedXFetch).toHaveBeenCalledTimes(3);
+  });
+
+  test('should replay received chunks to late subscribers', async () => {
+    const { response, push, close } = createControlledSSEResponse();
+    mockedXFetch.mockResolvedValueOnce(response);
+    const callbacks1 = createCallbacks();
+    const callbacks2 = createCallbacks();
+    const request1 = XRequest(baseURL, { dedupe: true, callbacks: callbacks1 });
+    push('data: a\n\n');
+    await wait();
+
+    const request2 = XRequest(baseURL, { dedupe: true, callbacks: callbacks2 });
+    await wait();
+    expect(callbacks2.onUpdate).toHaveBeenCalledWith({ data: 'a' }, expect.anything());
+
+    push('data: b\n\n');
+    close();
+    await Promise.all([request1.asyncHandler, request2.asyncHandler]);
+
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect(callbacks1.onUpdate).toHaveBeenCalledTimes(2);
+    expect(callbacks2.onUpdate).toHaveBeenCalledTimes(2);
+    expect(callbacks2.onSuccess).toHaveBeenCalledWith(
+      [{ data: 'a' }, { data: 'b' }],
+      expect.anything(),
+    );
+  });
+
+  test('should only abort the subscriber while others are waiting', async () => {
+    const { response, push, close } = createControlledSSEResponse();
+    mockedXFetch.mockResolvedValueOnce(response);
+    const callbacks1 = createCallbacks();
+    const callbacks2 = createCallbacks();
+    const request1 = XRequest(baseURL, { dedupe: true, callbacks: callbacks1 });
+    const request2 = XRequest(baseURL, { dedupe: true, callbacks: callbacks2 });
+    await wait();
+
+    request1.abort();
+    await request1.asyncHandler;
+    expect((callbacks1.onError as jest.Mock).mock.calls[0][0].name).toBe('AbortError');
+    expect(request1.isRequesting).toBe(false);
+    expect(mockedXFetch.mock.calls[0][1].signal.aborted).toBe(false);
+
+    push('data: a\n\n');
+    close();
+    await request2.asyncHandler;
+    expect(callbacks1.onUpdate).not.toHaveBeenCalled();
+    expect(callbacks2.onSuccess).toHaveBeenCalledWith([{ data: 'a' }], expect.anything());
+  });
+
+  test('should abort the shared request when all subscribers are aborted', async () => {
+    const { response } = createControlledSSEResponse();
+    mockedXFetch.mockResolvedValueOnce(response);
+    const request1 = XRequest(baseURL, { dedupe: true, callbacks: createCallbacks() });
+    const request2 = XRequest(baseURL, { dedupe: true, callbacks: createCallbacks() });
+    await wait();
+
+    request1.abort();
+    request2.abort();
+    expect(mockedXFetch.mock.calls[0][1].signal.aborted).toBe(true);
+
+    mockedXFetch.mockResolvedValueOnce(createJSONResponse({}));
+    await XRequest(baseURL, { dedupe: true, callbacks: createCallbacks() }).asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should cache the completed JSON response for the ttl', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    mockedXFetch.mockImplementation(() => Promise.resolve(createJSONResponse({ tools: [] })));
+    await XRequest(baseURL, { dedupe: { ttl: 5000 }, callbacks: createCallbacks() }).asyncHandler;
+
+    const callbacks = createCallbacks();
+    const request = XRequest(baseURL, { dedupe: { ttl: 5000 }, callbacks });
+    expect(callbacks.onSuccess).not.toHaveBeenCalled();
+    await request.asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect(callbacks.onUpdate).toHaveBeenCalledWith({ tools: [] }, expect.anything());
+    expect(callbacks.onSuccess).toHaveBeenCalledWith([{ tools: [] }], expect.anything());
+
+    // the request without ttl does not want the cached response
+    await XRequest(baseURL, { dedupe: true, callbacks: createCallbacks() }).asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(2);
+
+    await XRequest(baseURL, { dedupe: { ttl: 5000 }, callbacks: createCallbacks() }).asyncHandler;
+    now.mockReturnValue(7000);
+    await XRequest(baseURL, { dedupe: { ttl: 5000 }, callbacks: createCallbacks() }).asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(4);
+    now.mockRestore();
+  });
+
+  test('should not cache stream responses or errors', async () => {
+    const { response, push, close } = createControlledSSEResponse();
+    mockedXFetch.mockResolvedValueOnce(response);
+    const request = XRequest(baseURL, { dedupe: { ttl: 5000 }, callbacks: createCallbacks() });
+    push('data: a\n\n');
+    close();
+    await request.asyncHandler;
+
+    mockedXFetch.mockRejectedValueOnce(new Error('failed'));
+    const callbacks = createCallbacks();
+    await XRequest(baseURL, { dedupe: { ttl: 5000 }, callbacks }).asyncHandler;
+    expect(callbacks.onError).toHaveBeenCalledWith(new Error('failed'), undefined);
+
+    mockedXFetch.mockResolvedValueOnce(createJSONResponse({}));
+    await XRequest(baseURL, { dedupe: { ttl: 5000 }, callbacks: createCallbacks() }).asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(3);
+  });
+});
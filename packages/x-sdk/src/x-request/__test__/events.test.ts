@@ -0,0 +1,157 @@
+import type { XRequestCallbacks, XRequestEvent } from '../index';
+import XRequest, { clearXRequestCache, setXRequestGlobalOptions } from '../index';
+import xFetch from '../x-fetch';
+
+jest.mock('../x-fetch', () => jest.fn());
+
+const baseURL = 'https://api.example.com/v1/chat';
+const sseData = ['data: a\n\n', 'data: b\n\n'];
+
+function createSSEResponse(events: string[]) {
+  return {
+    headers: {
+      get: jest.fn().mockReturnValue('text/event-stream'),
+    },
+    body: new ReadableStream({
+      start(controller) {
+        for (const event of events) {
+          controller.enqueue(new TextEncoder().encode(event));
+        }
+        controller.close();
+      },
+    }),
+  };
+}
+
+function createCallbacks(): XRequestCallbacks<any> {
+  return {
+    onSuccess: jest.fn(),
+    onError: jest.fn(),
+    onUpdate: jest.fn(),
+  };
+}
+
+describe('XRequest lifecycle events', () => {
+  const mockedXFetch = xFetch as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedXFetch.mockReset();
+    clearXRequestCache();
+  });
+
+  afterEach(() => {
+    setXRequestGlobalOptions({ observer: undefined });
+  });
+
+  test('should emit chunk events with metrics', async () => {
+    mockedXFetch.mockResolvedValueOnce(createSSEResponse(sseData));
+    const request = XRequest(baseURL, { callbacks: createCallbacks() });
+    const firstChunk = jest.fn();
+    const chunk = jest.fn();
+    const done = jest.fn();
+    request.on('firstChunk', firstChunk);
+    request.on('chunk', chunk);
+    request.on('done', done);
+    await request.asyncHandler;
+
+    expect(firstChunk).toHaveBeenCalledTimes(1);
+    expect(firstChunk.mock.calls[0][0]).toEqual(
+      expect.objectContaining({ type: 'firstChunk', baseURL, chunk: { data: 'a' } }),
+    );
+    expect(firstChunk.mock.calls[0][0].metrics.timeToFirstChunk).toBeGreaterThanOrEqual(0);
+    expect(chunk).toHaveBeenCalledTimes(2);
+    expect(chunk.mock.calls[1][0].metrics.chunkCount).toBe(2);
+    expect(chunk.mock.calls[1][0].metrics.chunkInterval).toBeGreaterThanOrEqual(0);
+
+    const { metrics } = done.mock.calls[0][0] as XRequestEvent;
+    expect(metrics.chunkCount).toBe(2);
+    expect(metrics.bytes).toBe(new TextEncoder().encode(sseData.join('')).byteLength);
+    expect(metrics.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  test('should remove the listener', async () => {
+    mockedXFetch.mockResolvedValueOnce(createSSEResponse(sseData));
+    const request = XRequest(baseURL, { callbacks: createCallbacks() });
+    const chunk = jest.fn();
+    const done = jest.fn();
+    const removeChunk = request.on('chunk', chunk);
+    request.on('done', done);
+    removeChunk();
+    request.off('done', done);
+    await request.asyncHandler;
+    expect(chunk).not.toHaveBeenCalled();
+    expect(done).not.toHaveBeenCalled();
+  });
+
+  test('should emit error event for the failed JSON response', async () => {
+    mockedXFetch.mockResolvedValueOnce({
+      headers: {
+        get: jest.fn().mockReturnValue('application/json'),
+      },
+      json: jest.fn().mockResolvedValueOnce({ success: false, message: 'Failed' }),
+    });
+    const request = XRequest(baseURL, { callbacks: createCallbacks() });
+    let isRequesting: boolean | undefined;
+    const error = jest.fn((_event: XRequestEvent) => {
+      isRequesting = request.isRequesting;
+    });
+    request.on('error', error);
+    await request.asyncHandler;
+    expect(error.mock.calls[0][0].error).toEqual(new Error('Failed'));
+    expect(isRequesting).toBe(false);
+    expect(request.isRequesting).toBe(false);
+  });
+
+  test('should emit abort and timeout events', async () => {
+    mockedXFetch.mockImplementation(
+      (_, options) =>
+        new Promise((_, reject) => {
+          options.signal.addEventListener('abort', () => {
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+          });
+        }),
+    );
+    const abortRequest = XRequest(baseURL, { callbacks: createCallbacks() });
+    const abort = jest.fn();
+    abortRequest.on('abort', abort);
+    abortRequest.abort();
+    await abortRequest.asyncHandler;
+    expect(abort).toHaveBeenCalledTimes(1);
+
+    const timeoutRequest = XRequest(baseURL, { timeout: 10, callbacks: createCallbacks() });
+    const timeout = jest.fn();
+    timeoutRequest.on('timeout', timeout);
+    await timeoutRequest.asyncHandler;
+    expect(timeout.mock.calls[0][0].error).toEqual(new Error('TimeoutError'));
+  });
+
+  test('should notify the global and request observers', async () => {
+    const globalObserver = jest.fn();
+    const observer = jest.fn();
+    setXRequestGlobalOptions({ observer: globalObserver });
+    mockedXFetch.mockResolvedValueOnce(createSSEResponse(sseData));
+    await XRequest(baseURL, { observer, callbacks: createCallbacks() }).asyncHandler;
+
+    const types = ['firstChunk', 'chunk', 'chunk', 'done'];
+    expect(globalObserver.mock.calls.map(([event]) => event.type)).toEqual(types);
+    expect(observer.mock.calls.map(([event]) => event.type)).toEqual(types);
+  });
+
+  test('should observe the deduplicated request once', async () => {
+    const globalObserver = jest.fn();
+    setXRequestGlobalOptions({ observer: globalObserver });
+    mockedXFetch.mockResolvedValueOnce(createSSEResponse(sseData));
+    const request1 = XRequest(baseURL, { dedupe: true, callbacks: createCallbacks() });
+    const request2 = XRequest(baseURL, { dedupe: true, callbacks: createCallbacks() });
+    const done1 = jest.fn();
+    const done2 = jest.fn();
+    request1.on('done', done1);
+    request2.on('done', done2);
+    await Promise.all([request1.asyncHandler, request2.asyncHandler]);
+
+    expect(globalObserver.mock.calls.filter(([event]) => event.type === 'done')).toHaveLength(1);
+    expect(done1.mock.calls[0][0].metrics.chunkCount).toBe(2);
+    expect(done2.mock.calls[0][0].metrics.chunkCount).toBe(2);
+  });
+});
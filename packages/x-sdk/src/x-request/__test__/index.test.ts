@@ -1,6 +1,10 @@
 import type { SSEOutput } from '../../x-stream';
 import type { XRequestCallbacks, XRequestOptions } from '../index';
-import XRequest, { setXRequestGlobalOptions } from '../index';
+import XRequest, {
+  registerXRequestTransformer,
+  setXRequestGlobalOptions,
+  unregisterXRequestTransformer,
+} from '../index';
 import xFetch from '../x-fetch';
 
 jest.mock('../x-fetch', () => jest.fn());
@@ -98,6 +102,22 @@ describe('XRequest Class', () => {
     expect(callbacks.onUpdate).toHaveBeenCalledWith(options.params, headers);
   });
 
+  test('should match the content-type case-insensitively', async () => {
+    const headers = {
+      get: jest.fn().mockReturnValue('Application/JSON; charset=utf-8'),
+    };
+    mockedXFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers,
+      json: jest.fn().mockResolvedValueOnce(options.params),
+    });
+    const request = XRequest(baseURL, options);
+    await request.asyncHandler;
+    expect(callbacks.onSuccess).toHaveBeenCalledWith([options.params], headers);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
   test('should handle JSON response with success false and custom error fields', async () => {
     const headers = {
       get: jest.fn().mockReturnValue('application/json; charset=utf-8'),
@@ -249,6 +269,122 @@ describe('XRequest Class', () => {
     );
   });
 
+  test('should handle application/x-ndjson response by the built-in transformer', async () => {
+    const headers = {
+      get: jest.fn().mockReturnValue('application/x-ndjson; charset=utf-8'),
+    };
+    mockedXFetch.mockResolvedValueOnce({
+      headers,
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(ndJsonData));
+          controller.close();
+        },
+      }),
+    });
+    const request = XRequest(baseURL, options);
+    await request.asyncHandler;
+    expect(callbacks.onSuccess).toHaveBeenCalledWith(
+      [sseEvent, { ...sseEvent, event: 'delta' }],
+      headers,
+    );
+    expect(callbacks.onUpdate).toHaveBeenCalledWith(sseEvent, headers);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  test('should handle text/plain response by the built-in transformer', async () => {
+    const headers = {
+      get: jest.fn().mockReturnValue('text/plain'),
+    };
+    mockedXFetch.mockResolvedValueOnce({
+      headers,
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('Hello'));
+          controller.close();
+        },
+      }),
+    });
+    const request = XRequest(baseURL, options);
+    await request.asyncHandler;
+    expect(callbacks.onSuccess).toHaveBeenCalledWith(['Hello'], headers);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  test('should decode the stream response with the charset of content-type', async () => {
+    const headers = {
+      get: jest.fn().mockReturnValue('text/plain; charset=GBK'),
+    };
+    mockedXFetch.mockResolvedValueOnce({
+      headers,
+      body: new ReadableStream({
+        start(controller) {
+          // `你好` in GBK
+          controller.enqueue(new Uint8Array([0xc4, 0xe3, 0xba, 0xc3]));
+          controller.close();
+        },
+      }),
+    });
+    const request = XRequest(baseURL, options);
+    await request.asyncHandler;
+    expect(callbacks.onSuccess).toHaveBeenCalledWith(['你好'], headers);
+  });
+
+  test('should ignore the unsupported charset of content-type', async () => {
+    const headers = {
+      get: jest.fn().mockReturnValue('text/plain; charset=unknown'),
+    };
+    mockedXFetch.mockResolvedValueOnce({
+      headers,
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('Hello'));
+          controller.close();
+        },
+      }),
+    });
+    const request = XRequest(baseURL, options);
+    await request.asyncHandler;
+    expect(callbacks.onSuccess).toHaveBeenCalledWith(['Hello'], headers);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  test('should handle response by the registered transformer', async () => {
+    const headers = {
+      get: jest.fn().mockReturnValue('application/x-custom'),
+    };
+    const factory = jest.fn(
+      () =>
+        new TransformStream<string, string>({
+          transform(chunk, controller) {
+            controller.enqueue(chunk.toUpperCase());
+          },
+        }),
+    );
+    registerXRequestTransformer(['application/x-custom', 'application/x-custom2'], factory);
+    mockedXFetch.mockResolvedValueOnce({
+      headers,
+      body: mockNdJsonReadableStream(),
+    });
+    const request = XRequest(baseURL, options);
+    await request.asyncHandler;
+    expect(factory).toHaveBeenCalledWith(baseURL, headers);
+    expect(callbacks.onSuccess).toHaveBeenCalledWith(
+      ndJsonData.toUpperCase().split(ND_JSON_SEPARATOR),
+      headers,
+    );
+
+    unregisterXRequestTransformer(['application/x-custom', 'application/x-custom2']);
+    mockedXFetch.mockResolvedValueOnce({
+      headers,
+      body: mockNdJsonReadableStream(),
+    });
+    await XRequest(baseURL, options).asyncHandler;
+    expect(callbacks.onError).toHaveBeenCalledWith(
+      new Error('The response content-type: application/x-custom is not support!'),
+    );
+  });
+
   test('should handle error response', async () => {
     mockedXFetch.mockRejectedValueOnce(new Error('Fetch failed'));
     const request = XRequest(baseURL, options);
@@ -258,7 +394,7 @@ describe('XRequest Class', () => {
   });
 
   test('should throw error for unsupported content type', async () => {
-    const contentType = 'text/plain';
+    const contentType = 'application/octet-stream';
     mockedXFetch.mockResolvedValueOnce({
       headers: {
         get: jest.fn().mockReturnValue(contentType),
@@ -320,6 +456,40 @@ describe('XRequest Class', () => {
     await request.asyncHandler;
   });
 
+  test('global middlewares should compose with request middlewares', async () => {
+    const headers = {
+      get: jest.fn().mockReturnValue('text/event-stream'),
+    };
+    mockedXFetch.mockResolvedValueOnce({
+      headers,
+      body: mockSSEReadableStream(),
+    });
+    const globalMiddleware = {
+      onChunk: jest.fn((chunk: SSEOutput) => ({ ...chunk, global: true })),
+    };
+    const requestMiddleware = {
+      onChunk: jest.fn((chunk: SSEOutput) => ({ ...chunk, local: true })),
+    };
+    const logger = { onChunk: jest.fn() };
+    setXRequestGlobalOptions({ middlewares: globalMiddleware });
+    const request = XRequest(baseURL, {
+      ...options,
+      middlewares: [requestMiddleware, logger],
+    });
+    await request.asyncHandler;
+    setXRequestGlobalOptions({ middlewares: undefined });
+
+    expect(mockedXFetch.mock.calls[0][1].middlewares).toEqual([
+      globalMiddleware,
+      requestMiddleware,
+      logger,
+    ]);
+    const chunk = { ...sseEvent, global: true, local: true };
+    expect(logger.onChunk).toHaveBeenCalledWith(chunk, headers);
+    expect(callbacks.onUpdate).toHaveBeenCalledWith(chunk, headers);
+    expect(callbacks.onSuccess).toHaveBeenCalledWith([chunk], headers);
+  });
+
   test('should throw error when timeout', async () => {
     mockedXFetch.mockImplementationOnce(() => {
       return new Promise((resolve) => {
@@ -0,0 +1,98 @@
+import type { XRequestOptions } from '../index';
+import XRequest from '../index';
+import { appendQuery, isRawBody, omitContentType } from '../utils';
+import xFetch from '../x-fetch';
+
+jest.mock('../x-fetch', () => jest.fn());
+
+const baseURL = 'https://api.example.com/v1/chat';
+
+describe('XRequest method', () => {
+  const mockedXFetch = xFetch as jest.Mock;
+  const options: XRequestOptions = {
+    params: { model: 'gpt-4o', tags: ['a', 'b'] },
+    callbacks: {
+      onSuccess: jest.fn(),
+      onError: jest.fn(),
+    },
+  };
+
+  beforeEach(() => {
+    mockedXFetch.mockReset();
+    mockedXFetch.mockRejectedValue(new Error('ignored'));
+  });
+
+  test('should use POST with JSON body by default', async () => {
+    await XRequest(baseURL, options).asyncHandler;
+    const [url, init] = mockedXFetch.mock.calls[0];
+    expect(url).toBe(baseURL);
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe(JSON.stringify(options.params));
+    expect(init.headers['Content-Type']).toBe('application/json');
+  });
+
+  test('should send params as query string for GET', async () => {
+    const request = XRequest(`${baseURL}?stream=true`, {
+      ...options,
+      method: 'get',
+      manual: true,
+    });
+    request.run({ page: 1 } as any);
+    await request.asyncHandler;
+    const [url, init] = mockedXFetch.mock.calls[0];
+    expect(url).toBe(`${baseURL}?stream=true&model=gpt-4o&tags=a&tags=b&page=1`);
+    expect(init.method).toBe('GET');
+    expect(init.body).toBeUndefined();
+    expect(init.params).toEqual({ model: 'gpt-4o', tags: ['a', 'b'], page: 1 });
+    expect(init.headers['Content-Type']).toBeUndefined();
+  });
+
+  test('should send FormData as it is without the global Content-Type', async () => {
+    const formData = new FormData();
+    formData.append('file', new Blob(['hello']), 'hello.txt');
+    await XRequest(baseURL, {
+      ...options,
+      params: formData as any,
+      headers: { Authorization: 'Bearer token' },
+    }).asyncHandler;
+    const [, init] = mockedXFetch.mock.calls[0];
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe(formData);
+    expect(init.headers).toEqual({ Authorization: 'Bearer token' });
+  });
+
+  test('should send the raw body option and keep the custom Content-Type', async () => {
+    await XRequest(baseURL, {
+      ...options,
+      method: 'PUT',
+      body: 'raw text',
+      headers: { 'Content-Type': 'text/plain' },
+    }).asyncHandler;
+    const [, init] = mockedXFetch.mock.calls[0];
+    expect(init.method).toBe('PUT');
+    expect(init.body).toBe('raw text');
+    expect(init.headers).toEqual({ 'Content-Type': 'text/plain' });
+  });
+});
+
+describe('request utils', () => {
+  test('appendQuery', () => {
+    expect(appendQuery('/chat', {})).toBe('/chat');
+    expect(appendQuery('/chat#hash', { a: 1, b: null, c: undefined })).toBe('/chat?a=1#hash');
+    expect(appendQuery('/chat', { a: { b: 1 }, d: new Date(0) })).toBe(
+      '/chat?a=%7B%22b%22%3A1%7D&d=1970-01-01T00%3A00%3A00.000Z',
+    );
+  });
+
+  test('isRawBody', () => {
+    expect(isRawBody('text')).toBe(true);
+    expect(isRawBody(new URLSearchParams())).toBe(true);
+    expect(isRawBody(new Uint8Array())).toBe(true);
+    expect(isRawBody({})).toBe(false);
+    expect(isRawBody(undefined)).toBe(false);
+  });
+
+  test('omitContentType', () => {
+    expect(omitContentType({ 'content-type': 'a', Accept: 'b' })).toEqual({ Accept: 'b' });
+  });
+});
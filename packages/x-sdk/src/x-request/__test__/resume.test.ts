@@ -0,0 +1,118 @@
+import type { XRequestCallbacks, XRequestOptions } from '../index';
+import XRequest from '../index';
+import xFetch from '../x-fetch';
+
+jest.mock('../x-fetch', () => jest.fn());
+
+const baseURL = 'https://api.example.com/v1/chat';
+
+function createSSEResponse(events: string[], error?: Error) {
+  return {
+    headers: {
+      get: jest.fn().mockReturnValue('text/event-stream'),
+    },
+    body: new ReadableStream({
+      async start(controller) {
+        for (const event of events) {
+          controller.enqueue(new TextEncoder().encode(event));
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        if (error) {
+          controller.error(error);
+        } else {
+          controller.close();
+        }
+      },
+    }),
+  };
+}
+
+describe('XRequest resume', () => {
+  const mockedXFetch = xFetch as jest.Mock;
+  const callbacks: XRequestCallbacks<any> = {
+    onSuccess: jest.fn(),
+    onError: jest.fn(),
+    onUpdate: jest.fn(),
+  };
+  const options: XRequestOptions = {
+    params: { model: 'gpt-4o' },
+    headers: { Authorization: 'Bearer token' },
+    callbacks,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedXFetch.mockReset();
+  });
+
+  test('should not resume by default', async () => {
+    mockedXFetch.mockResolvedValueOnce(
+      createSSEResponse(['id: 1\ndata: a\n\n'], new TypeError('network error')),
+    );
+    await XRequest(baseURL, options).asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).toHaveBeenCalledWith(new TypeError('network error'));
+  });
+
+  test('should reconnect with Last-Event-ID and keep feeding onUpdate', async () => {
+    mockedXFetch
+      .mockResolvedValueOnce(
+        createSSEResponse(['retry: 20\n\n', 'id: 1\ndata: a\n\n'], new TypeError('network error')),
+      )
+      .mockResolvedValueOnce(createSSEResponse(['id: 2\ndata: b\n\n']));
+    const request = XRequest(baseURL, { ...options, resume: true });
+    await request.asyncHandler;
+
+    expect(mockedXFetch).toHaveBeenCalledTimes(2);
+    expect(mockedXFetch.mock.calls[0][1].headers['Last-Event-ID']).toBeUndefined();
+    expect(mockedXFetch.mock.calls[1][1].headers).toEqual(
+      expect.objectContaining({ Authorization: 'Bearer token', 'Last-Event-ID': '1' }),
+    );
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    expect(callbacks.onUpdate).toHaveBeenCalledTimes(3);
+    expect(callbacks.onSuccess).toHaveBeenCalledWith(
+      [{ retry: '20' }, { id: '1', data: 'a' }, { id: '2', data: 'b' }],
+      expect.anything(),
+    );
+    expect(request.isRequesting).toBe(false);
+  });
+
+  test('should not resume when no event id was received', async () => {
+    mockedXFetch.mockResolvedValueOnce(
+      createSSEResponse(['data: a\n\n'], new TypeError('network error')),
+    );
+    await XRequest(baseURL, { ...options, resume: true }).asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).toHaveBeenCalledWith(new TypeError('network error'));
+  });
+
+  test('should give up after max attempts without new chunks', async () => {
+    mockedXFetch
+      .mockResolvedValueOnce(createSSEResponse(['id: 1\ndata: a\n\n'], new TypeError('error 1')))
+      .mockResolvedValueOnce(createSSEResponse([], new TypeError('error 2')))
+      .mockResolvedValueOnce(createSSEResponse([], new TypeError('error 3')));
+    await XRequest(baseURL, {
+      ...options,
+      resume: { maxAttempts: 2, retryInterval: 10 },
+    }).asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(3);
+    expect(callbacks.onError).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).toHaveBeenCalledWith(new TypeError('error 3'));
+    expect(callbacks.onSuccess).not.toHaveBeenCalled();
+  });
+
+  test('should not resume after abort', async () => {
+    mockedXFetch.mockResolvedValueOnce(
+      createSSEResponse(['id: 1\ndata: a\n\n'], new TypeError('network error')),
+    );
+    const request = XRequest(baseURL, {
+      ...options,
+      resume: { retryInterval: 1000 },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    request.abort();
+    await request.asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect((callbacks.onError as jest.Mock).mock.calls[0][0].name).toBe('AbortError');
+  });
+});
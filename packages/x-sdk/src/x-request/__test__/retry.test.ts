@@ -0,0 +1,235 @@
+import type { XRequestCallbacks, XRequestOptions } from '../index';
+import XRequest, { setXRequestGlobalOptions } from '../index';
+import { defaultShouldRetry, getRetryDelay, parseRetryAfter } from '../retry';
+import xFetch from '../x-fetch';
+
+jest.mock('../x-fetch', () => jest.fn());
+
+const baseURL = 'https://api.example.com/v1/chat';
+
+function createStatusError(status: number, headers: Record<string, string> = {}) {
+  const error: any = new Error(`Fetch failed with status ${status}`);
+  error.status = status;
+  error.response = new Response(null, { status, headers });
+  return error;
+}
+
+function createJSONResponse(data: any) {
+  return {
+    headers: {
+      get: jest.fn().mockReturnValue('application/json; charset=utf-8'),
+    },
+    json: jest.fn().mockResolvedValueOnce(data),
+  };
+}
+
+function createSSEResponse(events: string[], error?: Error) {
+  return {
+    headers: {
+      get: jest.fn().mockReturnValue('text/event-stream'),
+    },
+    body: new ReadableStream({
+      async start(controller) {
+        for (const event of events) {
+          controller.enqueue(new TextEncoder().encode(event));
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        if (error) {
+          controller.error(error);
+        } else {
+          controller.close();
+        }
+      },
+    }),
+  };
+}
+
+describe('XRequest retry', () => {
+  const mockedXFetch = xFetch as jest.Mock;
+  const callbacks: XRequestCallbacks<any> = {
+    onSuccess: jest.fn(),
+    onError: jest.fn(),
+    onUpdate: jest.fn(),
+  };
+  const options: XRequestOptions = {
+    params: { model: 'gpt-4o' },
+    callbacks,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedXFetch.mockReset();
+  });
+
+  afterEach(() => {
+    setXRequestGlobalOptions({ retry: undefined });
+  });
+
+  test('should not retry by default', async () => {
+    mockedXFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const request = XRequest(baseURL, options);
+    await request.asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).toHaveBeenCalledWith(new TypeError('Failed to fetch'));
+  });
+
+  test('should retry network errors and retryable statuses until success', async () => {
+    mockedXFetch
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(createStatusError(503))
+      .mockResolvedValueOnce(createJSONResponse({ content: 'ok' }));
+    const request = XRequest(baseURL, {
+      ...options,
+      retry: { maxAttempts: 3, delay: 10, jitter: false },
+    });
+    await request.asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(3);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    expect(callbacks.onSuccess).toHaveBeenCalledWith([{ content: 'ok' }], expect.anything());
+    expect(request.isRequesting).toBe(false);
+  });
+
+  test('should give up after max attempts', async () => {
+    mockedXFetch.mockRejectedValue(createStatusError(502));
+    const request = XRequest(baseURL, {
+      ...options,
+      retry: { maxAttempts: 2, delay: 10 },
+    });
+    await request.asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(2);
+    expect(callbacks.onError).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).toHaveBeenCalledWith(new Error('Fetch failed with status 502'));
+  });
+
+  test('should not retry non-retryable statuses', async () => {
+    mockedXFetch.mockRejectedValue(createStatusError(401));
+    const request = XRequest(baseURL, {
+      ...options,
+      retry: { delay: 10 },
+    });
+    await request.asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).toHaveBeenCalledWith(new Error('Fetch failed with status 401'));
+  });
+
+  test('should use custom shouldRetry', async () => {
+    const shouldRetry = jest.fn((_error: Error, info: { status?: number }) => info.status === 401);
+    mockedXFetch
+      .mockRejectedValueOnce(createStatusError(401))
+      .mockResolvedValueOnce(createJSONResponse({ content: 'ok' }));
+    const request = XRequest(baseURL, {
+      ...options,
+      retry: { delay: 10, shouldRetry },
+    });
+    await request.asyncHandler;
+    expect(shouldRetry).toHaveBeenCalledWith(
+      new Error('Fetch failed with status 401'),
+      expect.objectContaining({ attempt: 1, status: 401 }),
+    );
+    expect(callbacks.onSuccess).toHaveBeenCalled();
+  });
+
+  test('should retry TimeoutError', async () => {
+    mockedXFetch
+      .mockImplementationOnce(() => new Promise(() => {}))
+      .mockResolvedValueOnce(createJSONResponse({ content: 'ok' }));
+    const request = XRequest(baseURL, {
+      ...options,
+      timeout: 50,
+      retry: { delay: 10 },
+    });
+    await request.asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(2);
+    expect(mockedXFetch.mock.calls[0][1].signal.aborted).toBe(true);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    expect(callbacks.onSuccess).toHaveBeenCalled();
+    expect(request.isTimeout).toBe(false);
+  });
+
+  test('should not retry after chunks reached onUpdate', async () => {
+    mockedXFetch.mockResolvedValueOnce(
+      createSSEResponse(['data: 1\n\n'], new TypeError('network error')),
+    );
+    const request = XRequest(baseURL, {
+      ...options,
+      retry: { delay: 10 },
+    });
+    await request.asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect(callbacks.onUpdate).toHaveBeenCalledWith({ data: '1' }, expect.anything());
+    expect(callbacks.onError).toHaveBeenCalledWith(new TypeError('network error'));
+  });
+
+  test('should not retry after abort', async () => {
+    mockedXFetch.mockRejectedValueOnce(createStatusError(503));
+    const request = XRequest(baseURL, {
+      ...options,
+      retry: { delay: 1000 },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    request.abort();
+    await request.asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).toHaveBeenCalledTimes(1);
+    expect((callbacks.onError as jest.Mock).mock.calls[0][0].name).toBe('AbortError');
+    expect(request.isRequesting).toBe(false);
+  });
+
+  test('should use global retry options and allow to disable them', async () => {
+    setXRequestGlobalOptions({ retry: { delay: 10 } });
+    mockedXFetch
+      .mockRejectedValueOnce(createStatusError(500))
+      .mockResolvedValueOnce(createJSONResponse({ content: 'ok' }));
+    await XRequest(baseURL, options).asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(2);
+
+    mockedXFetch.mockClear();
+    mockedXFetch.mockRejectedValueOnce(createStatusError(500));
+    await XRequest(baseURL, { ...options, retry: false }).asyncHandler;
+    expect(mockedXFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('retry utils', () => {
+  test('parseRetryAfter', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('invalid')).toBeUndefined();
+    const date = new Date(Date.now() + 5000).toUTCString();
+    expect(parseRetryAfter(date)).toBeGreaterThan(3000);
+    expect(parseRetryAfter(new Date(0).toUTCString())).toBe(0);
+  });
+
+  test('getRetryDelay', () => {
+    expect(getRetryDelay({ jitter: false }, { attempt: 1 })).toBe(1000);
+    expect(getRetryDelay({ jitter: false }, { attempt: 3 })).toBe(4000);
+    expect(getRetryDelay({ jitter: false, maxDelay: 3000 }, { attempt: 3 })).toBe(3000);
+
+    const delay = getRetryDelay({}, { attempt: 2 });
+    expect(delay).toBeGreaterThanOrEqual(1000);
+    expect(delay).toBeLessThanOrEqual(2000);
+
+    const response = new Response(null, { status: 429, headers: { 'Retry-After': '3' } });
+    expect(getRetryDelay({}, { attempt: 1, status: 429, response })).toBe(3000);
+    const longResponse = new Response(null, { status: 503, headers: { 'Retry-After': '3600' } });
+    expect(getRetryDelay({}, { attempt: 1, status: 503, response: longResponse })).toBe(30000);
+    expect(
+      getRetryDelay({ maxDelay: 5000 }, { attempt: 1, status: 503, response: longResponse }),
+    ).toBe(5000);
+    expect(
+      getRetryDelay({ respectRetryAfter: false, jitter: false }, { attempt: 1, response }),
+    ).toBe(1000);
+  });
+
+  test('defaultShouldRetry', () => {
+    expect(defaultShouldRetry(new TypeError('Failed to fetch'), { attempt: 1 })).toBe(true);
+    expect(defaultShouldRetry(new Error('TimeoutError'), { attempt: 1 })).toBe(true);
+    expect(defaultShouldRetry(new Error('StreamTimeoutError'), { attempt: 1 })).toBe(true);
+    expect(defaultShouldRetry(new Error('Other'), { attempt: 1 })).toBe(false);
+    expect(defaultShouldRetry(new Error('x'), { attempt: 1, status: 429 })).toBe(true);
+    expect(defaultShouldRetry(new Error('x'), { attempt: 1, status: 400 })).toBe(false);
+    const abortError = new Error('aborted');
+    abortError.name = 'AbortError';
+    expect(defaultShouldRetry(abortError, { attempt: 1 })).toBe(false);
+  });
+});
@@ -68,4 +68,68 @@ describe('xFetch', () => {
     expect(response).toBe(mockResponse);
     expect(global.fetch).toHaveBeenCalledWith(baseURL, {});
   });
+
+  it('should run middlewares in order', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response('{}', { status: 200 }));
+    const order: string[] = [];
+
+    await xFetch(baseURL, {
+      middlewares: [
+        {
+          onRequest: async (url, options) => {
+            order.push('request1');
+            return [url, { ...options, headers: { trace: 'id' } }];
+          },
+          onResponse: async (response) => {
+            order.push('response1');
+            return response;
+          },
+        },
+        {
+          onRequest: async (url, options) => {
+            order.push('request2');
+            return [url, { ...options, headers: { ...options.headers, auth: 'token' } }];
+          },
+          onResponse: async (response) => {
+            order.push('response2');
+            return response;
+          },
+        },
+      ],
+    });
+
+    expect(order).toEqual(['request1', 'request2', 'response1', 'response2']);
+    expect(global.fetch).toHaveBeenCalledWith(baseURL, {
+      headers: { trace: 'id', auth: 'token' },
+    });
+  });
+
+  it('should recover from error by onError middleware', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response(null, { status: 401 }));
+    const recoveredResponse = new Response('{}', { status: 200 });
+    const logError = jest.fn();
+    const refreshToken = jest.fn(async (error: any) => {
+      if (error.status === 401) return recoveredResponse;
+    });
+
+    const response = await xFetch(baseURL, {
+      middlewares: [{ onError: logError }, { onError: refreshToken }],
+    });
+
+    expect(response).toBe(recoveredResponse);
+    expect(logError).toHaveBeenCalledWith(
+      new Error('Fetch failed with status 401'),
+      baseURL,
+      expect.anything(),
+    );
+    expect(refreshToken).toHaveBeenCalled();
+  });
+
+  it('should throw the error when onError middlewares do not recover', async () => {
+    (global.fetch as jest.Mock).mockRejectedValue(new TypeError('Failed to fetch'));
+    const onError = jest.fn();
+
+    await expect(xFetch(baseURL, { middlewares: { onError } })).rejects.toThrow('Failed to fetch');
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
 });
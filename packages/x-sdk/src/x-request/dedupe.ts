@@ -0,0 +1,202 @@
+import type { XRequestCallbacks } from '.';
+
+export interface XRequestDedupeOptions {
+  /**
+   * @description How long the completed JSON response is cached, unit: ms,
+   * the response is not cached by default and only the in-flight request is shared
+   * @default 0
+   */
+  ttl?: number;
+}
+
+/**
+ * @description The request which really sends the fetch, its chunks are shared by all subscribers
+ */
+export interface XRequestSharedRunner {
+  abort: () => void;
+}
+
+interface XRequestSubscriber<Output> {
+  callbacks: XRequestCallbacks<Output>;
+  resolve: () => void;
+  /**
+   * @description The late subscriber is attached in a microtask, before that it only receives the replay
+   */
+  attached: boolean;
+  done: boolean;
+}
+
+interface XRequestSharedEntry<Output> {
+  chunks: Output[];
+  responseHeaders?: Headers;
+  subscribers: Set<XRequestSubscriber<Output>>;
+  runner?: XRequestSharedRunner;
+  /**
+   * @description Exists when the request is settled
+   */
+  result?: { error?: Error; errorInfo?: any };
+  /**
+   * @description Exists when the completed response is cached
+   */
+  expiresAt?: number;
+}
+
+export interface XRequestSharedSubscription {
+  asyncHandler: Promise<void>;
+  unsubscribe: () => void;
+}
+
+const sharedRequests = new Map<string, XRequestSharedEntry<any>>();
+
+/**
+ * @description The identical requests have the same method, url, body and headers
+ */
+export function getSharedRequestKey(
+  method: string,
+  url: string,
+  body?: string,
+  headers?: Record<string, string>,
+) {
+  return JSON.stringify([method, url, body ?? null, headers ?? {}]);
+}
+
+function isJSONResponse(responseHeaders?: Headers) {
+  const contentType = responseHeaders?.get('content-type') || '';
+  return contentType.split(';')[0].trim() === 'application/json';
+}
+
+function removeEntry(key: string, entry: XRequestSharedEntry<any>) {
+  if (sharedRequests.get(key) === entry) {
+    sharedRequests.delete(key);
+  }
+}
+
+function settleSubscriber<Output>(
+  entry: XRequestSharedEntry<Output>,
+  subscriber: XRequestSubscriber<Output>,
+) {
+  const { result } = entry;
+  if (!result || subscriber.done) return;
+  subscriber.done = true;
+  if (result.error) {
+    subscriber.callbacks.onError(result.error, result.errorInfo);
+  } else {
+    subscriber.callbacks.onSuccess(entry.chunks, entry.responseHeaders!);
+  }
+  subscriber.resolve();
+}
+
+/**
+ * Replay the received chunks to the late subscriber, then keep feeding it with the new ones
+ */
+function attachSubscriber<Output>(
+  entry: XRequestSharedEntry<Output>,
+  subscriber: XRequestSubscriber<Output>,
+) {
+  if (subscriber.done) return;
+  subscriber.attached = true;
+  entry.chunks.forEach((chunk) => {
+    subscriber.callbacks.onUpdate?.(chunk, entry.responseHeaders!);
+  });
+  settleSubscriber(entry, subscriber);
+}
+
+/**
+ * Subscribe to the request of the key, the identical requests share a single in-flight fetch
+ * and the completed JSON response can be cached for the `ttl`
+ * @param createRunner Send the real request with the callbacks which broadcast to all subscribers
+ */
+export function subscribeSharedRequest<Output>(
+  key: string,
+  callbacks: XRequestCallbacks<Output>,
+  createRunner: (callbacks: XRequestCallbacks<Output>) => XRequestSharedRunner,
+  options?: boolean | XRequestDedupeOptions,
+): XRequestSharedSubscription {
+  const { ttl = 0 } = typeof options === 'object' ? options : {};
+  let entry = sharedRequests.get(key) as XRequestSharedEntry<Output> | undefined;
+  // the settled entry only exists when it is cached, ignore it if it is expired or the cache is not wanted
+  if (entry?.result && (ttl <= 0 || entry.expiresAt! <= Date.now())) {
+    removeEntry(key, entry);
+    entry = undefined;
+  }
+
+  let resolve!: () => void;
+  const asyncHandler = new Promise<void>((r) => {
+    resolve = r;
+  });
+  const subscriber: XRequestSubscriber<Output> = {
+    callbacks,
+    resolve,
+    attached: !entry,
+    done: false,
+  };
+
+  if (entry) {
+    const currentEntry = entry;
+    currentEntry.subscribers.add(subscriber);
+    // callbacks are always called asynchronously, even if the response is cached
+    Promise.resolve().then(() => attachSubscriber(currentEntry, subscriber));
+  } else {
+    const newEntry: XRequestSharedEntry<Output> = {
+      chunks: [],
+      subscribers: new Set([subscriber]),
+    };
+    entry = newEntry;
+    sharedRequests.set(key, newEntry);
+    const settle = (result: XRequestSharedEntry<Output>['result']) => {
+      newEntry.result = result;
+      newEntry.subscribers.forEach((item) => {
+        if (item.attached) settleSubscriber(newEntry, item);
+      });
+      newEntry.subscribers.clear();
+    };
+    newEntry.runner = createRunner({
+      onUpdate: (chunk, responseHeaders) => {
+        newEntry.chunks.push(chunk);
+        newEntry.responseHeaders = responseHeaders;
+        newEntry.subscribers.forEach((item) => {
+          if (item.attached && !item.done) item.callbacks.onUpdate?.(chunk, responseHeaders);
+        });
+      },
+      onSuccess: (_, responseHeaders) => {
+        newEntry.responseHeaders = responseHeaders;
+        // only the completed JSON response is cached, a stream can not be replayed as it was
+        if (ttl > 0 && isJSONResponse(responseHeaders)) {
+          newEntry.expiresAt = Date.now() + ttl;
+        } else {
+          removeEntry(key, newEntry);
+        }
+        settle({});
+      },
+      onError: (error, errorInfo) => {
+        removeEntry(key, newEntry);
+        settle({ error, errorInfo });
+      },
+    });
+  }
+
+  const currentEntry = entry;
+  return {
+    asyncHandler,
+    unsubscribe: () => {
+      if (subscriber.done) return;
+      subscriber.done = true;
+      currentEntry.subscribers.delete(subscriber);
+      // the shared request is aborted only when no one is waiting for it
+      if (!currentEntry.result && currentEntry.subscribers.size === 0) {
+        removeEntry(key, currentEntry);
+        currentEntry.runner?.abort();
+      }
+      subscriber.callbacks.onError(new DOMException('The operation was aborted.', 'AbortError'));
+      resolve();
+    },
+  };
+}
+
+/**
+ * Clear the cached responses and forget the in-flight requests,
+ * the in-flight requests are not aborted and their subscribers still receive the response
+ */
+export function clearXRequestCache() {
+  sharedRequests.clear();
+}
@@ -0,0 +1,78 @@
+/**
+ * @description Every request ends with exactly one of `done`, `error`, `abort` and `timeout`
+ */
+export type XRequestEventType = 'firstChunk' | 'chunk' | 'done' | 'error' | 'abort' | 'timeout';
+
+export interface XRequestMetrics {
+  /**
+   * @description The timestamp when the request is sent, unit: ms
+   */
+  startTime: number;
+  /**
+   * @description The timestamp when the first chunk is received, unit: ms
+   */
+  firstChunkTime?: number;
+  /**
+   * @description The timestamp when the last chunk is received, unit: ms
+   */
+  lastChunkTime?: number;
+  /**
+   * @description The time from sending the request to receiving the first chunk, unit: ms
+   */
+  timeToFirstChunk?: number;
+  /**
+   * @description The time between the current chunk and the previous one, unit: ms
+   */
+  chunkInterval?: number;
+  /**
+   * @description The time from sending the request to the end of it, unit: ms
+   */
+  duration?: number;
+  /**
+   * @description The number of chunks passed to `onUpdate`
+   */
+  chunkCount: number;
+  /**
+   * @description The number of bytes received, the stream body is counted as it is read,
+   * the JSON body uses the `Content-Length` header
+   */
+  bytes: number;
+}
+
+export interface XRequestEvent<Output = any> {
+  type: XRequestEventType;
+  baseURL: string;
+  /**
+   * @description A snapshot of the metrics when the event is emitted
+   */
+  metrics: XRequestMetrics;
+  /**
+   * @description Exists in `firstChunk` and `chunk` events
+   */
+  chunk?: Output;
+  /**
+   * @description Exists in `error`, `abort` and `timeout` events
+   */
+  error?: Error;
+}
+
+export type XRequestEventListener<Output = any> = (event: XRequestEvent<Output>) => void;
+
+export function createXRequestMetrics(): XRequestMetrics {
+  return {
+    startTime: Date.now(),
+    chunkCount: 0,
+    bytes: 0,
+  };
+}
+
+/**
+ * @description The end event type of the failed request
+ */
+export function getErrorEventType(error: Error, isAborted: boolean): XRequestEventType {
+  if (isAborted || error.name === 'AbortError') return 'abort';
+  if (error.message === 'TimeoutError' || error.message === 'StreamTimeoutError') {
+    return 'timeout';
+  }
+  return 'error';
+}
@@ -1,9 +1,42 @@
 import type { AnyObject } from '../_util/type';
 import type { JSONOutPut, SSEOutput, XReadableStream, XStreamOptions } from '../x-stream';
 import XStream from '../x-stream';
-import type { XFetchMiddlewares } from './x-fetch';
+import type { XRequestDedupeOptions, XRequestSharedSubscription } from './dedupe';
+import { getSharedRequestKey, subscribeSharedRequest } from './dedupe';
+import type {
+  XRequestEvent,
+  XRequestEventListener,
+  XRequestEventType,
+  XRequestMetrics,
+} from './events';
+import { createXRequestMetrics, getErrorEventType } from './events';
+import type { XRequestRetryOptions } from './retry';
+import { canRetry, getRetryDelay, getRetryInfo } from './retry';
+import { getXRequestTransformer } from './transformers';
+import {
+  appendQuery,
+  getCharset,
+  isMethodWithoutBody,
+  isRawBody,
+  omitContentType,
+  toMiddlewareList,
+} from './utils';
+import type { XFetchMiddlewares, XFetchMiddlewaresOption } from './x-fetch';
 import xFetch from './x-fetch';
 
+export type { XRequestDedupeOptions } from './dedupe';
+export { clearXRequestCache } from './dedupe';
+export type {
+  XRequestEvent,
+  XRequestEventListener,
+  XRequestEventType,
+  XRequestMetrics,
+} from './events';
+export type { XRequestRetryInfo, XRequestRetryOptions } from './retry';
+export type { XRequestTransformerFactory } from './transformers';
+export { registerXRequestTransformer, unregisterXRequestTransformer } from './transformers';
+export type { XFetchMiddlewares, XFetchMiddlewaresOption } from './x-fetch';
+
 export interface XRequestCallbacks<Output> {
   /**
    * @description Callback when the request is successful
@@ -27,9 +60,15 @@ export interface XRequestOptions<Input = AnyObject, Output = SSEOutput> extends
    */
   callbacks?: XRequestCallbacks<Output>;
   /**
-   * @description The parameters to be sent
+   * @description The parameters to be sent, they are serialized as query string for `GET` and `HEAD`,
+   * FormData or other raw body will be sent as it is
    */
   params?: Input;
+  /**
+   * @description The request method
+   * @default 'POST'
+   */
+  method?: string;
   /**
    * @description The custom headers to be sent
    */
@@ -50,9 +89,9 @@ export interface XRequestOptions<Input = AnyObject, Output = SSEOutput> extends
     options: XRequestOptions<Input, Output>,
   ) => Promise<Response>;
   /**
-   * @description Middlewares for the request and response
+   * @description Middlewares for the request, response, error and chunk, run in order after the global middlewares
    */
-  middlewares?: XFetchMiddlewares<Input, Output>;
+  middlewares?: XFetchMiddlewaresOption<Input, Output>;
   /**
    * @description Custom stream transformer, can use to adapt the stream data to the custom format
    */
@@ -64,11 +103,57 @@ export interface XRequestOptions<Input = AnyObject, Output = SSEOutput> extends
    * @description Whether to manually run the request
    */
   manual?: boolean;
+  /**
+   * @description Retry the request with exponential backoff when it fails before any chunk is received,
+   * set `false` to disable the global retry options
+   */
+  retry?: XRequestRetryOptions | false;
+  /**
+   * @description Reconnect with the `Last-Event-ID` header when a SSE stream drops halfway,
+   * the chunks of the new connection will keep feeding the same `onUpdate`
+   */
+  resume?: boolean | XRequestResumeOptions;
+  /**
+   * @description Share a single in-flight request among the identical requests (same method, url, params and headers),
+   * the chunks received before are replayed to the late ones, set `ttl` to cache the completed JSON response
+   */
+  dedupe?: boolean | XRequestDedupeOptions;
+  /**
+   * @description Observe the lifecycle events of the request, the global observer is called as well,
+   * a deduplicated request is observed once
+   */
+  observer?: XRequestEventListener<Output>;
+  /**
+   * @description Decompress the stream response which is not unwrapped by the proxy
+   */
+  decompression?: XStreamOptions<Output>['decompression'];
+}
+
+export interface XRequestResumeOptions {
+  /**
+   * @description Maximum number of reconnections in a row without receiving new chunks
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * @description The interval before reconnecting when the server does not supply the `retry` field, unit: ms
+   * @default 3000
+   */
+  retryInterval?: number;
 }
 
 export type XRequestGlobalOptions<Input, Output> = Pick<
   XRequestOptions<Input, Output>,
-  'headers' | 'timeout' | 'streamTimeout' | 'middlewares' | 'fetch' | 'transformStream' | 'manual'
+  | 'headers'
+  | 'timeout'
+  | 'streamTimeout'
+  | 'middlewares'
+  | 'fetch'
+  | 'transformStream'
+  | 'manual'
+  | 'retry'
+  | 'resume'
+  | 'observer'
 >;
 
 export type XRequestFunction<Input = AnyObject, Output = SSEOutput> = (
@@ -76,6 +161,41 @@ export type XRequestFunction<Input = AnyObject, Output = SSEOutput> = (
   options?: XRequestOptions<Input, Output>,
 ) => XRequestClass<Input, Output>;
 
+const DEFAULT_RESUME_MAX_ATTEMPTS = 3;
+const DEFAULT_RESUME_INTERVAL = 3000;
+
+/**
+ * @description The state of the current request, shared by the retried and resumed connections
+ */
+interface XRequestStreamState<Output> {
+  chunks: Output[];
+  /**
+   * @description The last seen SSE `id` field
+   */
+  lastEventId?: string;
+  /**
+   * @description The reconnection time supplied by the SSE `retry` field
+   */
+  retryInterval?: number;
+}
+
+/**
+ * Record the chunk and the SSE `id` and `retry` fields of it
+ * @link https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+function updateStreamState<Output>(state: XRequestStreamState<Output>, chunk: Output) {
+  state.chunks.push(chunk);
+  if (!chunk || typeof chunk !== 'object') return;
+  const { id, retry } = chunk as SSEOutput;
+  // The invalid `id` and `retry` are already ignored by XStream, but the custom transformStream may not
+  if (typeof id === 'string' && !id.includes('\0')) {
+    state.lastEventId = id;
+  }
+  if (typeof retry === 'string' && /^\d+$/.test(retry)) {
+    state.retryInterval = Number(retry);
+  }
+}
+
 /**
  * @description Global options for the request
  */
@@ -114,6 +234,29 @@ export abstract class AbstractXRequestClass<Input, Output> {
 
   abstract run(params?: Input): void;
   abstract abort(): void;
+
+  /**
+   * @description Listen to the lifecycle events, the custom request class does not emit events by default
+   */
+  on(_type: XRequestEventType, _listener: XRequestEventListener): () => void {
+    return () => {};
+  }
+
+  off(_type: XRequestEventType, _listener: XRequestEventListener): void {}
+
+  /**
+   * @description Create a request with the same options for a single run, so that the concurrent runs do not share
+   * the state, such as the callbacks and the abort controller. By default it is a shallow copy of the request
+   * with its own options, the custom request class should override it when the state is not reset by `run`
+   */
+  fork(options?: Partial<XRequestOptions<Input, Output>>): AbstractXRequestClass<Input, Output> {
+    const request: AbstractXRequestClass<Input, Output> = Object.assign(
+      Object.create(Object.getPrototypeOf(this)),
+      this,
+    );
+    request.options = { ...this.options, ...options };
+    return request;
+  }
 }
 
 export class XRequestClass<Input = AnyObject, Output = SSEOutput> extends AbstractXRequestClass<
@@ -126,7 +269,16 @@ export class XRequestClass<Input = AnyObject, Output = SSEOutput> extends Abstra
   private _isTimeout = false;
   private streamTimeoutHandler!: number;
   private _isStreamTimeout = false;
+  private retryHandler!: number;
   private abortController!: AbortController;
+  private sharedSubscription?: XRequestSharedSubscription;
+  private metrics: XRequestMetrics = createXRequestMetrics();
+  private listeners: Partial<Record<XRequestEventType, Set<XRequestEventListener<Output>>>> = {};
+  // The forked request also emits the events to the listeners of the request it is forked from
+  private parent?: XRequestClass<Input, Output>;
+  private observers: XRequestEventListener<Output>[] = [];
+  private middlewareList: XFetchMiddlewares<Input, Output>[] = [];
+  private _isAborted = false;
   private _isRequesting = false;
   private _manual = false;
 
@@ -174,10 +326,43 @@ export class XRequestClass<Input = AnyObject, Output = SSEOutput> extends Abstra
     }
   }
 
+  /**
+   * Listen to the lifecycle event of the request
+   * @returns Remove the listener
+   */
+  public on(type: XRequestEventType, listener: XRequestEventListener<Output>) {
+    if (!this.listeners[type]) {
+      this.listeners[type] = new Set();
+    }
+    this.listeners[type].add(listener);
+    return () => this.off(type, listener);
+  }
+
+  public off(type: XRequestEventType, listener: XRequestEventListener<Output>) {
+    this.listeners[type]?.delete(listener);
+  }
+
+  /**
+   * Create an independent manual request with the same options, the events are also emitted to
+   * the listeners of this request
+   */
+  public fork(options?: Partial<XRequestOptions<Input, Output>>) {
+    const request = new XRequestClass<Input, Output>(this.baseURL, {
+      ...this.options,
+      ...options,
+      manual: true,
+    });
+    request.parent = this;
+    return request;
+  }
+
   public abort() {
     clearTimeout(this.timeoutHandler);
     clearTimeout(this.streamTimeoutHandler);
+    this._isAborted = true;
     this.abortController.abort();
+    // only leave the shared request, it keeps running for the other subscribers
+    this.sharedSubscription?.unsubscribe();
   }
 
   private init(extraParams?: Partial<Input>) {
@@ -191,75 +376,347 @@ export class XRequestClass<Input = AnyObject, Output = SSEOutput> extends Abstra
       timeout,
       streamTimeout,
       middlewares,
+      retry = globalOptions.retry,
+      resume = globalOptions.resume,
+      dedupe,
+      observer,
+      decompression,
       ...otherOptions
     } = this.options;
+    const method = (otherOptions.method || 'POST').toUpperCase();
+    const mergedParams = (
+      isRawBody(extraParams)
+        ? extraParams
+        : isRawBody(params)
+          ? params
+          : { ...params, ...extraParams }
+    ) as Input;
+    let url = this.baseURL;
+    let body = otherOptions.body;
+    if (isMethodWithoutBody(method)) {
+      url = appendQuery(url, mergedParams as AnyObject);
+      body = undefined;
+    } else if (body === undefined || body === null) {
+      body = isRawBody(mergedParams) ? mergedParams : JSON.stringify(mergedParams);
+    }
+    // The global `Content-Type` defaults to `application/json`, which only makes sense for the JSON body,
+    // e.g. the browser should generate the multipart boundary for FormData by itself
+    const isJSONBody = body !== undefined && !isRawBody(mergedParams) && !otherOptions.body;
+    // global middlewares are composed with the request ones instead of being replaced
+    this.middlewareList = [
+      ...toMiddlewareList(globalOptions.middlewares as XFetchMiddlewaresOption<Input, Output>),
+      ...toMiddlewareList(middlewares),
+    ];
     const requestInit: XRequestOptions<Input, Output> = {
       ...otherOptions,
-      method: 'POST',
-      body: JSON.stringify({
-        ...params,
-        ...(extraParams || {}),
-      }),
-      params: {
-        ...params,
-        ...extraParams,
-      } as Input,
-      headers: Object.assign({}, globalOptions.headers || {}, headers),
-      signal: this.abortController.signal,
-      middlewares,
+      method,
+      body,
+      params: mergedParams,
+      headers: Object.assign(
+        {},
+        isJSONBody ? globalOptions.headers : omitContentType(globalOptions.headers || {}),
+        headers,
+      ),
+      middlewares: this.middlewareList,
     };
-    if (timeout && timeout > 0) {
-      this.timeoutHandler = window.setTimeout(() => {
-        this.isTimeout = true;
-        this.finishRequest();
-        callbacks?.onError?.(new Error('TimeoutError'));
-      }, timeout);
-    }
+    this._isAborted = false;
+    this.isTimeout = false;
+    this.isStreamTimeout = false;
+    this.sharedSubscription = undefined;
+    this.metrics = createXRequestMetrics();
+    // the shared request is observed by the request which really sends it
+    this.observers = dedupe
+      ? []
+      : ([globalOptions.observer, observer].filter(Boolean) as XRequestEventListener<Output>[]);
     this.startRequest();
+    if (dedupe && (body === undefined || typeof body === 'string')) {
+      this.sharedSubscription = subscribeSharedRequest<Output>(
+        getSharedRequestKey(method, url, body, requestInit.headers as Record<string, string>),
+        {
+          onUpdate: (chunk, responseHeaders) => {
+            this.recordChunk(chunk);
+            callbacks?.onUpdate?.(chunk, responseHeaders);
+          },
+          onSuccess: (chunks, responseHeaders) => {
+            this.finishRequest();
+            this.recordEnd('done');
+            callbacks?.onSuccess?.(chunks, responseHeaders);
+          },
+          onError: (error, errorInfo) => {
+            this.isTimeout = error.message === 'TimeoutError';
+            this.isStreamTimeout = error.message === 'StreamTimeoutError';
+            this.finishRequest();
+            this.recordEnd(getErrorEventType(error, this._isAborted), error);
+            callbacks?.onError?.(error, errorInfo);
+          },
+        },
+        // the shared request is sent by a request of its own, so that aborting one subscriber does not affect others
+        (sharedCallbacks) =>
+          new XRequestClass<Input, Output>(this.baseURL, {
+            ...this.options,
+            params: mergedParams,
+            manual: false,
+            dedupe: false,
+            callbacks: sharedCallbacks,
+          }),
+        dedupe,
+      );
+      this._asyncHandler = this.sharedSubscription.asyncHandler;
+      return;
+    }
     // save and export a async handler to wait for the request to be finished
     // though it is not necessary, but it is useful for some scenarios
-    this._asyncHandler = xFetch<Input, Output>(this.baseURL, {
-      fetch,
-      ...requestInit,
-    })
-      .then(async (response) => {
-        clearTimeout(this.timeoutHandler);
-
-        if (this.isTimeout) return;
+    this._asyncHandler = this.sendRequest(
+      url,
+      {
+        fetch,
+        ...requestInit,
+      },
+      { callbacks, transformStream, timeout, streamTimeout, retry, resume },
+    );
+  }
 
-        if (transformStream) {
-          let transformer = transformStream as XStreamOptions<Output>['transformStream'];
-          if (typeof transformStream === 'function') {
-            transformer = transformStream(this.baseURL, response.headers);
-          }
-          await this.customResponseHandler<Output>(response, callbacks, transformer, streamTimeout);
-          return;
-        }
-        const contentType = response.headers.get('content-type') || '';
-        const mimeType = contentType.split(';')[0].trim();
-        switch (mimeType) {
-          /** SSE */
-          case 'text/event-stream':
-            await this.sseResponseHandler<Output>(response, callbacks, streamTimeout);
-            break;
-          /** JSON */
-          case 'application/json':
-            await this.jsonResponseHandler<Output>(response, callbacks);
-            break;
-          default:
-            throw new Error(`The response content-type: ${contentType} is not support!`);
-        }
-      })
-      .catch((error) => {
+  private async sendRequest(
+    url: string,
+    requestInit: XRequestOptions<Input, Output>,
+    config: Pick<
+      XRequestOptions<Input, Output>,
+      'callbacks' | 'transformStream' | 'timeout' | 'streamTimeout' | 'retry' | 'resume'
+    >,
+  ) {
+    const { callbacks, retry, resume } = config;
+    const resumeOptions: XRequestResumeOptions = typeof resume === 'object' ? resume : {};
+    const state: XRequestStreamState<Output> = { chunks: [] };
+    let attempt = 0;
+    let resumeAttempt = 0;
+    let resumedChunkCount = 0;
+    let currentRequestInit = requestInit;
+    while (true) {
+      attempt += 1;
+      // the timeout flags describe the current attempt, a retried or resumed request may succeed
+      this.isTimeout = false;
+      this.isStreamTimeout = false;
+      try {
+        await this.fetchResponse(url, currentRequestInit, config, state);
+        return;
+      } catch (error) {
         clearTimeout(this.timeoutHandler);
-        this.finishRequest();
+        clearTimeout(this.streamTimeoutHandler);
         // abort() throw a DOMException, so we need to check it
         const err =
           error instanceof Error || error instanceof DOMException
-            ? error
+            ? (error as Error)
             : new Error('Unknown error!');
+        // chunks which already reached `onUpdate` can not be taken back, so never retry after that
+        const updated = state.chunks.length > 0;
+        const retryInfo = getRetryInfo(err, attempt);
+        // only the failures in a row are counted, a resumed stream which received new chunks resets it
+        if (state.chunks.length > resumedChunkCount) {
+          resumeAttempt = 0;
+        }
+        let delay: number | undefined;
+        if (retry && !this._isAborted && !updated && canRetry(retry, err, retryInfo)) {
+          delay = getRetryDelay(retry, retryInfo);
+        } else if (
+          resume &&
+          !this._isAborted &&
+          state.lastEventId &&
+          resumeAttempt < (resumeOptions.maxAttempts ?? DEFAULT_RESUME_MAX_ATTEMPTS)
+        ) {
+          resumeAttempt += 1;
+          resumedChunkCount = state.chunks.length;
+          delay = state.retryInterval ?? resumeOptions.retryInterval ?? DEFAULT_RESUME_INTERVAL;
+          currentRequestInit = {
+            ...requestInit,
+            headers: {
+              ...(requestInit.headers as Record<string, string>),
+              'Last-Event-ID': state.lastEventId,
+            },
+          };
+        }
+        if (delay !== undefined) {
+          this.abortController = new AbortController();
+          try {
+            await this.waitForRetry(delay);
+            continue;
+          } catch (abortError) {
+            this.finishRequest();
+            this.recordEnd('abort', abortError as Error);
+            callbacks?.onError?.(abortError as Error);
+            return;
+          }
+        }
+        this.finishRequest();
+        this.recordEnd(getErrorEventType(err, this._isAborted), err);
         callbacks?.onError?.(err);
+        return;
+      }
+    }
+  }
+
+  private async fetchResponse(
+    url: string,
+    requestInit: XRequestOptions<Input, Output>,
+    config: Pick<
+      XRequestOptions<Input, Output>,
+      'callbacks' | 'transformStream' | 'timeout' | 'streamTimeout'
+    >,
+    state: XRequestStreamState<Output>,
+  ) {
+    const { callbacks, transformStream, timeout, streamTimeout } = config;
+    const response = await this.withTimeout(
+      xFetch<Input, Output>(url, {
+        ...requestInit,
+        signal: this.abortController.signal,
+      }),
+      timeout,
+      'TimeoutError',
+    );
+
+    if (transformStream) {
+      let transformer = transformStream as XStreamOptions<Output>['transformStream'];
+      if (typeof transformStream === 'function') {
+        transformer = transformStream(this.baseURL, response.headers);
+      }
+      await this.customResponseHandler(response, state, callbacks, transformer, streamTimeout);
+      return;
+    }
+    const contentType = response.headers.get('content-type') || '';
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    const registeredTransformer = getXRequestTransformer(mimeType);
+    if (registeredTransformer) {
+      await this.customResponseHandler(
+        response,
+        state,
+        callbacks,
+        registeredTransformer(this.baseURL, response.headers),
+        streamTimeout,
+      );
+      return;
+    }
+    switch (mimeType) {
+      /** SSE */
+      case 'text/event-stream':
+        await this.sseResponseHandler(response, state, callbacks, streamTimeout);
+        break;
+      /** JSON */
+      case 'application/json':
+        await this.jsonResponseHandler(response, state, callbacks);
+        break;
+      default:
+        throw new Error(`The response content-type: ${contentType} is not support!`);
+    }
+  }
+
+  /**
+   * Reject with `TimeoutError` or `StreamTimeoutError` when the promise is not settled in time,
+   * the current connection will be aborted at the same time
+   */
+  private withTimeout<T>(
+    promise: Promise<T>,
+    timeout: number | undefined,
+    type: 'TimeoutError' | 'StreamTimeoutError',
+  ) {
+    if (!timeout || timeout <= 0) return promise;
+    return Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        const handler = window.setTimeout(() => {
+          if (type === 'TimeoutError') {
+            this.isTimeout = true;
+          } else {
+            this.isStreamTimeout = true;
+          }
+          // reject before aborting, otherwise the race may settle with the AbortError of the fetch
+          reject(new Error(type));
+          this.abortController.abort();
+        }, timeout);
+        if (type === 'TimeoutError') {
+          this.timeoutHandler = handler;
+        } else {
+          this.streamTimeoutHandler = handler;
+        }
+      }),
+    ]).finally(() => {
+      clearTimeout(type === 'TimeoutError' ? this.timeoutHandler : this.streamTimeoutHandler);
+    });
+  }
+
+  private waitForRetry(delay: number) {
+    const { signal } = this.abortController;
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(this.retryHandler);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      };
+      this.retryHandler = window.setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private transformChunk(chunk: Output, responseHeaders: Headers) {
+    return this.middlewareList.reduce<Output>((current, middleware) => {
+      const next = middleware.onChunk?.(current, responseHeaders);
+      return next === undefined ? current : next;
+    }, chunk);
+  }
+
+  private emit(type: XRequestEventType, detail?: Pick<XRequestEvent<Output>, 'chunk' | 'error'>) {
+    const event: XRequestEvent<Output> = {
+      type,
+      baseURL: this.baseURL,
+      metrics: { ...this.metrics },
+      ...detail,
+    };
+    for (
+      let request: XRequestClass<Input, Output> | undefined = this;
+      request;
+      request = request.parent
+    ) {
+      request.listeners[type]?.forEach((listener) => {
+        listener(event);
       });
+    }
+    this.observers.forEach((observer) => {
+      observer(event);
+    });
+  }
+
+  private recordChunk(chunk: Output) {
+    const now = Date.now();
+    const { metrics } = this;
+    metrics.chunkCount += 1;
+    metrics.chunkInterval = now - (metrics.lastChunkTime ?? metrics.startTime);
+    metrics.lastChunkTime = now;
+    if (metrics.chunkCount === 1) {
+      metrics.firstChunkTime = now;
+      metrics.timeToFirstChunk = now - metrics.startTime;
+      this.emit('firstChunk', { chunk });
+    }
+    this.emit('chunk', { chunk });
+  }
+
+  private recordEnd(type: XRequestEventType, error?: Error) {
+    this.metrics.duration = Date.now() - this.metrics.startTime;
+    this.emit(type, error ? { error } : undefined);
+  }
+
+  /**
+   * Count the bytes of the body as it is read
+   */
+  private countBytes(body: ReadableStream<Uint8Array>) {
+    if (!(body instanceof ReadableStream)) return body;
+    return body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+          this.metrics.bytes += chunk.byteLength;
+          controller.enqueue(chunk);
+        },
+      }),
+    );
   }
 
   private startRequest() {
@@ -270,81 +727,87 @@ export class XRequestClass<Input = AnyObject, Output = SSEOutput> extends Abstra
     this._isRequesting = false;
   }
 
-  private customResponseHandler = async <Output = SSEOutput>(
+  /**
+   * Create the stream of the response body, the encoding is detected from the `Content-Type` header
+   */
+  private createStream(
     response: Response,
+    transformStream?: XStreamOptions<Output>['transformStream'],
+  ) {
+    return XStream<Output>({
+      readableStream: this.countBytes(response.body!),
+      transformStream,
+      encoding: getCharset(response.headers.get('content-type')),
+      decompression: this.options.decompression,
+    });
+  }
+
+  private customResponseHandler = async (
+    response: Response,
+    state: XRequestStreamState<Output>,
     callbacks?: XRequestCallbacks<Output>,
     transformStream?: XStreamOptions<Output>['transformStream'],
     streamTimeout?: number | undefined,
   ) => {
-    const stream = XStream<Output>({
-      readableStream: response.body!,
-      transformStream,
-    });
-    await this.processStream<Output>(stream, response, callbacks, streamTimeout);
+    const stream = this.createStream(response, transformStream);
+    await this.processStream(stream, response, state, callbacks, streamTimeout);
   };
 
-  private sseResponseHandler = async <Output = SSEOutput>(
+  private sseResponseHandler = async (
     response: Response,
+    state: XRequestStreamState<Output>,
     callbacks?: XRequestCallbacks<Output>,
     streamTimeout?: number,
   ) => {
-    const stream = XStream<Output>({
-      readableStream: response.body!,
-    });
-    await this.processStream<Output>(stream, response, callbacks, streamTimeout);
+    const stream = this.createStream(response);
+    await this.processStream(stream, response, state, callbacks, streamTimeout);
   };
 
-  private async processStream<Output>(
+  private async processStream(
     stream: XReadableStream<Output>,
     response: Response,
+    state: XRequestStreamState<Output>,
     callbacks?: XRequestCallbacks<Output>,
     streamTimeout?: number,
   ) {
-    const chunks: Output[] = [];
     const iterator = stream[Symbol.asyncIterator]();
-    let result: IteratorResult<Output, any>;
-    do {
-      // if streamTimeout is set, start the stream timeout timer
-      // every time the stream is updated, reset the timer
-      if (streamTimeout) {
-        this.streamTimeoutHandler = window.setTimeout(() => {
-          this.isStreamTimeout = true;
-          this.finishRequest();
-          callbacks?.onError?.(new Error('StreamTimeoutError'));
-        }, streamTimeout);
-      }
-      result = await iterator.next();
-      chunks.push(result.value);
-      callbacks?.onUpdate?.(result.value, response.headers);
-      clearTimeout(this.streamTimeoutHandler);
-      if (this.isStreamTimeout) {
-        break;
-      }
-    } while (!result.done);
-    if (streamTimeout) {
-      clearTimeout(this.streamTimeoutHandler);
-      if (this.isStreamTimeout) {
-        this.finishRequest();
-        return;
-      }
+    while (true) {
+      // if streamTimeout is set, every time the stream is updated, the timer will be reset
+      const result = await this.withTimeout(iterator.next(), streamTimeout, 'StreamTimeoutError');
+      if (result.done) break;
+      const chunk = this.transformChunk(result.value, response.headers);
+      updateStreamState(state, chunk);
+      this.recordChunk(chunk);
+      callbacks?.onUpdate?.(chunk, response.headers);
     }
     this.finishRequest();
-    callbacks?.onSuccess?.(chunks, response.headers);
+    this.recordEnd('done');
+    callbacks?.onSuccess?.(state.chunks, response.headers);
   }
 
-  private jsonResponseHandler = async <Output = JSONOutPut>(
+  private jsonResponseHandler = async (
     response: Response,
+    state: XRequestStreamState<Output>,
     callbacks?: XRequestCallbacks<Output>,
   ) => {
-    const chunk: Output = await response.json();
+    const chunk = this.transformChunk(await response.json(), response.headers);
+    const contentLength = Number(response.headers.get('content-length'));
+    if (Number.isFinite(contentLength)) {
+      this.metrics.bytes = contentLength;
+    }
 
     if ((chunk as JSONOutPut)?.success === false) {
       const error = new Error((chunk as JSONOutPut).message || 'System error');
       error.name = (chunk as JSONOutPut).name || 'SystemError';
+      this.finishRequest();
+      this.recordEnd('error', error);
       callbacks?.onError?.(error, chunk);
     } else {
+      state.chunks.push(chunk);
+      this.recordChunk(chunk);
       callbacks?.onUpdate?.(chunk, response.headers);
       this.finishRequest();
+      this.recordEnd('done');
       // keep type consistency with stream mode
       callbacks?.onSuccess?.([chunk], response.headers);
     }
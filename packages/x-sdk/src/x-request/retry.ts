@@ -0,0 +1,130 @@
+import type { XFetchError } from './x-fetch';
+
+export interface XRequestRetryInfo {
+  /**
+   * @description The attempt that just failed, starts from 1
+   */
+  attempt: number;
+  /**
+   * @description The response status, only exists when the server responded with a non-2xx status
+   */
+  status?: number;
+  /**
+   * @description The failed response, only exists when the server responded with a non-2xx status
+   */
+  response?: Response;
+}
+
+export interface XRequestRetryOptions {
+  /**
+   * @description Maximum number of attempts, including the first request
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * @description The delay before the first retry, unit: ms
+   * @default 1000
+   */
+  delay?: number;
+  /**
+   * @description The upper limit of the delay, unit: ms
+   * @default 30000
+   */
+  maxDelay?: number;
+  /**
+   * @description The exponential backoff factor
+   * @default 2
+   */
+  factor?: number;
+  /**
+   * @description Whether to randomize the delay to avoid retries from different clients arriving at the same time
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * @description Whether to use the `Retry-After` response header as the delay when it exists,
+   * the delay is still limited by `maxDelay`
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+  /**
+   * @description Decide whether the error can be retried, by default network errors,
+   * `TimeoutError`, `StreamTimeoutError` and the statuses in {@link RETRYABLE_STATUS} are retried
+   */
+  shouldRetry?: (error: Error, info: XRequestRetryInfo) => boolean;
+}
+
+/**
+ * @description Statuses which are considered to be transient
+ */
+export const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504];
+
+const DEFAULT_RETRY_OPTIONS: Required<Omit<XRequestRetryOptions, 'shouldRetry'>> = {
+  maxAttempts: 3,
+  delay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+  respectRetryAfter: true,
+};
+
+export function getRetryInfo(error: Error, attempt: number): XRequestRetryInfo {
+  const { status, response } = error as XFetchError;
+  return { attempt, status, response };
+}
+
+export function defaultShouldRetry(error: Error, info: XRequestRetryInfo) {
+  if (error.name === 'AbortError') return false;
+  if (info.status !== undefined) return RETRYABLE_STATUS.includes(info.status);
+  // `fetch` rejects with a TypeError when the network is unavailable
+  return (
+    error.name === 'TypeError' ||
+    error.message === 'TimeoutError' ||
+    error.message === 'StreamTimeoutError'
+  );
+}
+
+/**
+ * @description Parse the `Retry-After` header, which can be either delay seconds or a http date
+ * @link https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+export function getRetryDelay(options: XRequestRetryOptions, info: XRequestRetryInfo) {
+  const { delay, maxDelay, factor, jitter, respectRetryAfter } = {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...options,
+  };
+
+  if (respectRetryAfter) {
+    const retryAfter = parseRetryAfter(info.response?.headers?.get('Retry-After'));
+    if (retryAfter !== undefined) return Math.min(maxDelay, retryAfter);
+  }
+
+  const backoff = Math.min(maxDelay, delay * factor ** (info.attempt - 1));
+  // Equal jitter, keep at least half of the backoff
+  return jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+}
+
+export function canRetry(
+  options: XRequestRetryOptions | false | undefined,
+  error: Error,
+  info: XRequestRetryInfo,
+) {
+  if (!options) return false;
+  const { maxAttempts = DEFAULT_RETRY_OPTIONS.maxAttempts, shouldRetry = defaultShouldRetry } =
+    options;
+  if (info.attempt >= maxAttempts) return false;
+  return shouldRetry(error, info);
+}
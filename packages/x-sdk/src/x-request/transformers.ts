@@ -0,0 +1,57 @@
+import { ndjsonTransformStream } from '../x-stream';
+
+/**
+ * @description Create the transformStream for a response, a TransformStream inst can only be used once,
+ * so the factory is called for every response
+ */
+export type XRequestTransformerFactory<Output = any> = (
+  baseURL: string,
+  responseHeaders: Headers,
+) => TransformStream<string, Output>;
+
+/**
+ * @description Plain text stream, every decoded text chunk is emitted as it is
+ */
+const textTransformer: XRequestTransformerFactory<string> = () => new TransformStream();
+
+const ndjsonTransformer: XRequestTransformerFactory = () => ndjsonTransformStream();
+
+/**
+ * @description The transformers by mime type, `text/event-stream` and `application/json`
+ * are handled by XRequest itself unless they are registered here
+ */
+const transformers = new Map<string, XRequestTransformerFactory>([
+  ['application/x-ndjson', ndjsonTransformer],
+  ['application/jsonl', ndjsonTransformer],
+  ['text/plain', textTransformer],
+]);
+
+const normalizeMimeType = (mimeType: string) => mimeType.split(';')[0].trim().toLowerCase();
+
+/**
+ * Register the transformer for the response content-type,
+ * so that there is no need to pass `transformStream` on every request
+ * @param mimeType The mime type of the response, e.g. `application/x-ndjson`
+ * @param factory Create the transformStream for the response
+ */
+export function registerXRequestTransformer<Output = any>(
+  mimeType: string | string[],
+  factory: XRequestTransformerFactory<Output>,
+) {
+  (Array.isArray(mimeType) ? mimeType : [mimeType]).forEach((type) => {
+    transformers.set(normalizeMimeType(type), factory);
+  });
+}
+
+/**
+ * Remove the transformer of the response content-type, including the built-in ones
+ */
+export function unregisterXRequestTransformer(mimeType: string | string[]) {
+  (Array.isArray(mimeType) ? mimeType : [mimeType]).forEach((type) => {
+    transformers.delete(normalizeMimeType(type));
+  });
+}
+
+export function getXRequestTransformer(mimeType: string) {
+  return transformers.get(normalizeMimeType(mimeType));
+}
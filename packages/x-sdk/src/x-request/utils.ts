@@ -0,0 +1,96 @@
+import type { AnyObject } from '../_util/type';
+import type { XFetchMiddlewares, XFetchMiddlewaresOption } from './x-fetch';
+
+/**
+ * @description Methods which can not have a request body, the params will be sent as query string
+ */
+const METHODS_WITHOUT_BODY = ['GET', 'HEAD'];
+
+export function isMethodWithoutBody(method: string) {
+  return METHODS_WITHOUT_BODY.includes(method.toUpperCase());
+}
+
+/**
+ * Check if the value can be sent as the request body directly, e.g. FormData for multipart uploads
+ */
+export function isRawBody(value: unknown): value is BodyInit {
+  if (typeof value === 'string') return true;
+  if (!value || typeof value !== 'object') return false;
+  return (
+    (typeof FormData !== 'undefined' && value instanceof FormData) ||
+    (typeof URLSearchParams !== 'undefined' && value instanceof URLSearchParams) ||
+    (typeof Blob !== 'undefined' && value instanceof Blob) ||
+    (typeof ReadableStream !== 'undefined' && value instanceof ReadableStream) ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value)
+  );
+}
+
+/**
+ * Serialize the params into query string and append it to the url,
+ * arrays are appended as repeated keys and objects are serialized as JSON
+ * @example appendQuery('/chat?a=1', { b: [1, 2], c: { d: 1 } }) // '/chat?a=1&b=1&b=2&c=%7B%22d%22%3A1%7D'
+ */
+export function appendQuery(url: string, params?: AnyObject) {
+  const searchParams = new URLSearchParams();
+  const appendValue = (key: string, value: unknown) => {
+    if (value === undefined || value === null) return;
+    if (value instanceof Date) {
+      searchParams.append(key, value.toISOString());
+    } else if (typeof value === 'object') {
+      searchParams.append(key, JSON.stringify(value));
+    } else {
+      searchParams.append(key, String(value));
+    }
+  };
+  Object.entries(params || {}).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => {
+        appendValue(key, item);
+      });
+    } else {
+      appendValue(key, value);
+    }
+  });
+
+  const query = searchParams.toString();
+  if (!query) return url;
+
+  const [path, hash] = url.split('#');
+  const separator = path.includes('?') ? '&' : '?';
+  return `${path}${separator}${query}${hash !== undefined ? `#${hash}` : ''}`;
+}
+
+/**
+ * Remove the `Content-Type` header, the key is case-insensitive
+ */
+export function omitContentType(headers: Record<string, string>) {
+  return Object.keys(headers).reduce<Record<string, string>>((acc, key) => {
+    if (key.toLowerCase() !== 'content-type') {
+      acc[key] = headers[key];
+    }
+    return acc;
+  }, {});
+}
+
+/**
+ * Get the charset from the `Content-Type` header, the unsupported charset is ignored
+ * @example getCharset('text/event-stream; charset=GBK') // 'gbk'
+ */
+export function getCharset(contentType?: string | null) {
+  const charset = /;\s*charset\s*=\s*"?([^";\s]+)"?/i.exec(contentType || '')?.[1]?.toLowerCase();
+  if (!charset) return undefined;
+  try {
+    new TextDecoder(charset);
+    return charset;
+  } catch {
+    return undefined;
+  }
+}
+
+export function toMiddlewareList<Input, Output>(
+  middlewares?: XFetchMiddlewaresOption<Input, Output>,
+): XFetchMiddlewares<Input, Output>[] {
+  if (!middlewares) return [];
+  return Array.isArray(middlewares) ? middlewares : [middlewares];
+}
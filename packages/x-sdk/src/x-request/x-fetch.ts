@@ -1,4 +1,5 @@
 import { XRequestOptions } from '.';
+import { toMiddlewareList } from './utils';
 
 export interface XFetchMiddlewares<Input, Output> {
   onRequest?: (
@@ -6,6 +7,35 @@ export interface XFetchMiddlewares<Input, Output> {
     options: XRequestOptions<Input, Output>,
   ) => Promise<[Parameters<typeof fetch>[0], XRequestOptions<Input, Output>]>;
   onResponse?: (response: Response) => Promise<Response>;
+  /**
+   * @description Called when the fetch fails or the response is not ok,
+   * return a Response to recover from the error, e.g. retry after refreshing the token
+   */
+  onError?: (
+    error: Error,
+    baseURL: Parameters<typeof fetch>[0],
+    options: XRequestOptions<Input, Output>,
+  ) => Promise<Response | void> | Response | void;
+  /**
+   * @description Called for every chunk before it reaches `onUpdate`, return a new chunk to replace it
+   */
+  onChunk?: (chunk: Output, responseHeaders: Headers) => Output | void;
+}
+
+/**
+ * @description Middlewares run in order, the global middlewares run before the request ones
+ */
+export type XFetchMiddlewaresOption<Input, Output> =
+  | XFetchMiddlewares<Input, Output>
+  | XFetchMiddlewares<Input, Output>[];
+
+/**
+ * @description The error thrown by xFetch when the response status is not ok,
+ * it keeps the status and the response so that callers can decide how to handle it
+ */
+export interface XFetchError extends Error {
+  status?: number;
+  response?: Response;
 }
 
 export type XFetchType<Input, Output> = (
@@ -13,11 +43,27 @@ export type XFetchType<Input, Output> = (
   options?: XRequestOptions<Input, Output>,
 ) => Promise<Response>;
 
+const checkResponse = (response: Response) => {
+  if (!response.ok) {
+    const error: XFetchError = new Error(`Fetch failed with status ${response.status}`);
+    error.status = response.status;
+    error.response = response;
+    throw error;
+  }
+
+  if (!response.body) {
+    throw new Error('The response body is empty.');
+  }
+
+  return response;
+};
+
 const XFetch = async <Input, Output>(
   baseURL: Parameters<typeof fetch>[0],
   options: XRequestOptions<Input, Output>,
 ) => {
-  const { fetch: fetchFn = globalThis.fetch, middlewares = {}, ...requestInit } = options;
+  const { fetch: fetchFn = globalThis.fetch, middlewares, ...requestInit } = options;
+  const middlewareList = toMiddlewareList(middlewares);
 
   if (typeof fetchFn !== 'function') {
     throw new Error('The options.fetch must be a typeof fetch function!');
@@ -29,38 +75,45 @@ const XFetch = async <Input, Output>(
     requestInit,
   ];
 
-  /** ---------------------- request middleware ---------------------- */
-  if (typeof middlewares.onRequest === 'function') {
-    const modifiedFetchArgs = await middlewares.onRequest(...fetchArgs);
+  try {
+    /** ---------------------- request middleware ---------------------- */
+    for (const middleware of middlewareList) {
+      if (typeof middleware.onRequest === 'function') {
+        fetchArgs = await middleware.onRequest(...fetchArgs);
+      }
+    }
 
-    fetchArgs = modifiedFetchArgs;
-  }
+    /** ---------------------- fetch ---------------------- */
+    let response = await fetchFn(...fetchArgs);
 
-  /** ---------------------- fetch ---------------------- */
-  let response = await fetchFn(...fetchArgs);
+    /** ---------------------- response middleware ---------------------- */
+    for (const middleware of middlewareList) {
+      if (typeof middleware.onResponse === 'function') {
+        const modifiedResponse = await middleware.onResponse(response);
 
-  /** ---------------------- response middleware ---------------------- */
-  if (typeof middlewares.onResponse === 'function') {
-    const modifiedResponse = await middlewares.onResponse(response);
+        if (!(modifiedResponse instanceof Response)) {
+          throw new Error('The options.onResponse must return a Response instance!');
+        }
 
-    if (!(modifiedResponse instanceof Response)) {
-      throw new Error('The options.onResponse must return a Response instance!');
+        response = modifiedResponse;
+      }
     }
 
-    response = modifiedResponse;
-  }
+    /** ---------------------- response check ---------------------- */
+    return checkResponse(response);
+  } catch (error) {
+    /** ---------------------- error middleware ---------------------- */
+    for (const middleware of middlewareList) {
+      if (typeof middleware.onError === 'function') {
+        const recoveredResponse = await middleware.onError(error as Error, ...fetchArgs);
 
-  /** ---------------------- response check ---------------------- */
-  if (!response.ok) {
-    throw new Error(`Fetch failed with status ${response.status}`);
-  }
-
-  if (!response.body) {
-    throw new Error('The response body is empty.');
+        if (recoveredResponse instanceof Response) {
+          return checkResponse(recoveredResponse);
+        }
+      }
+    }
+    throw error;
   }
-
-  /** ---------------------- return ---------------------- */
-  return response;
 };
 
 export default XFetch;
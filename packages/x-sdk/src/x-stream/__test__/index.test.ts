@@ -1,4 +1,5 @@
-import XStream from '../index';
+import { gzipSync, gunzipSync } from 'zlib';
+import XStream, { ndjsonTransformStream, recordXStream, replayXStream, teeXStream } from '../index';
 
 describe('XStream', () => {
   it('transforms binary stream to SSE events', async () => {
@@ -15,7 +16,7 @@ describe('XStream', () => {
       result.push(value);
     }
 
-    expect(result).toEqual([{ event: ' test' }, { data: ' value' }]);
+    expect(result).toEqual([{ event: 'test' }, { data: 'value' }]);
   });
 
   it('make compatible with incomplete SSE data. ', async () => {
@@ -40,8 +41,8 @@ describe('XStream', () => {
     }
 
     expect(result).toEqual([
-      { event: ' message', data: '1' },
-      { event: ' end', data: '2' },
+      { event: 'message', data: '1' },
+      { event: 'end', data: '2' },
     ]);
   });
 
@@ -82,22 +83,20 @@ describe('XStream', () => {
     ).rejects.toThrow('The options.readableStream must be an instance of ReadableStream.');
   });
 
-  it('throws an error when key-value separator is not ":"', async () => {
-    await expect(
-      (async () => {
-        const result: any[] = [];
-        for await (const value of XStream({
-          readableStream: new ReadableStream({
-            async start(controller) {
-              controller.enqueue(new TextEncoder().encode('event: message\n\nincomplete'));
-              controller.close();
-            },
-          }),
-        })) {
-          result.push(value);
-        }
-      })(),
-    ).rejects.toThrow('The key-value separator ":" is not found in the sse line chunk!');
+  it('treats the line without ":" as a field with empty value', async () => {
+    const result: any[] = [];
+    for await (const value of XStream({
+      readableStream: new ReadableStream({
+        async start(controller) {
+          controller.enqueue(new TextEncoder().encode('event: message\n\ndata\n\nincomplete'));
+          controller.close();
+        },
+      }),
+    })) {
+      result.push(value);
+    }
+
+    expect(result).toEqual([{ event: 'message' }, { data: '' }]);
   });
 
   it('should return an instance of ReadableStream', () => {
@@ -112,4 +111,241 @@ describe('XStream', () => {
       }),
     ).toBeInstanceOf(ReadableStream);
   });
+
+  it('supports ndjson transform stream', async () => {
+    const readableStream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"a":1}\r\n{"a"'));
+        controller.enqueue(new TextEncoder().encode(':2}\n\n{"a":3}'));
+        controller.close();
+      },
+    });
+
+    const result: any[] = [];
+    for await (const value of XStream({
+      readableStream,
+      transformStream: ndjsonTransformStream(),
+    })) {
+      result.push(value);
+    }
+
+    expect(result).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+  });
+
+  it('decodes the text with the encoding', async () => {
+    // `data: 你好` in GBK
+    const gbkData = new Uint8Array([
+      0x64, 0x61, 0x74, 0x61, 0x3a, 0x20, 0xc4, 0xe3, 0xba, 0xc3, 0x0a, 0x0a,
+    ]);
+    const readableStream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(gbkData);
+        controller.close();
+      },
+    });
+
+    const result: any[] = [];
+    for await (const value of XStream({ readableStream, encoding: 'gbk' })) {
+      result.push(value);
+    }
+
+    expect(result).toEqual([{ data: '你好' }]);
+  });
+
+  it('decompresses the binary data before decoding', async () => {
+    const originalDecompressionStream = (window as any).DecompressionStream;
+    (window as any).DecompressionStream = class extends TransformStream<Uint8Array, Uint8Array> {
+      constructor(format: string) {
+        const chunks: Uint8Array[] = [];
+        super({
+          transform(chunk) {
+            chunks.push(chunk);
+          },
+          flush(controller) {
+            expect(format).toBe('gzip');
+            controller.enqueue(new Uint8Array(gunzipSync(Buffer.concat(chunks))));
+          },
+        });
+      }
+    };
+    const readableStream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new Uint8Array(gzipSync('data: value\n\n')));
+        controller.close();
+      },
+    });
+
+    const result: any[] = [];
+    for await (const value of XStream({ readableStream, decompression: 'gzip' })) {
+      result.push(value);
+    }
+
+    expect(result).toEqual([{ data: 'value' }]);
+    (window as any).DecompressionStream = originalDecompressionStream;
+  });
+
+  it('throws an error when DecompressionStream is not supported', () => {
+    const originalDecompressionStream = (window as any).DecompressionStream;
+    delete (window as any).DecompressionStream;
+    expect(() =>
+      XStream({
+        readableStream: new ReadableStream(),
+        decompression: 'gzip',
+      }),
+    ).toThrow('The DecompressionStream is not supported in the current environment.');
+    (window as any).DecompressionStream = originalDecompressionStream;
+  });
+
+  describe('EventSource conformance', () => {
+    const parse = async (chunks: (string | Uint8Array)[]) => {
+      const readableStream = new ReadableStream({
+        start(controller) {
+          chunks.forEach((chunk) => {
+            controller.enqueue(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+          });
+          controller.close();
+        },
+      });
+      const result: any[] = [];
+      for await (const value of XStream({ readableStream })) {
+        result.push(value);
+      }
+      return result;
+    };
+
+    it('supports `\r\n`, `\r` and `\n` line endings', async () => {
+      expect(await parse(['data: a\r\n\r\ndata: b\r\rdata: c\n\ndata: d\r\n\n'])).toEqual([
+        { data: 'a' },
+        { data: 'b' },
+        { data: 'c' },
+        { data: 'd' },
+      ]);
+    });
+
+    it('supports `\r\n` split across chunks', async () => {
+      expect(await parse(['data: a\r', '\ndata: b\r', '\n\r', '\n'])).toEqual([{ data: 'a\nb' }]);
+    });
+
+    it('joins multiple data lines with `\n`', async () => {
+      expect(await parse(['data: {\ndata:   "key": "value"\ndata: }\n\ndata\ndata\n\n'])).toEqual([
+        { data: '{\n  "key": "value"\n}' },
+        { data: '\n' },
+      ]);
+    });
+
+    it('only removes a single leading space of the value', async () => {
+      expect(await parse(['data:value\nevent:  message\n\n'])).toEqual([
+        { data: 'value', event: ' message' },
+      ]);
+    });
+
+    it('ignores comments and unknown fields', async () => {
+      expect(await parse([': ping\n\n:\nfoo: bar\ndata: a\n\n'])).toEqual([{ data: 'a' }]);
+    });
+
+    it('ignores the id containing NULL and the retry which is not a number', async () => {
+      expect(await parse(['id: 1\0\nretry: 1s\ndata: a\n\nid: 2\nretry: 1000\n\n'])).toEqual([
+        { data: 'a' },
+        { id: '2', retry: '1000' },
+      ]);
+    });
+
+    it('strips the BOM at the start of the stream', async () => {
+      const bom = new Uint8Array([0xef, 0xbb, 0xbf]);
+      expect(await parse([bom, 'data: a\n\n'])).toEqual([{ data: 'a' }]);
+    });
+  });
+});
+
+describe('XStream tools', () => {
+  const createXStream = () =>
+    XStream({
+      readableStream: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('data: a\n\ndata: b\n\n'));
+          controller.close();
+        },
+      }),
+    });
+
+  const readAll = async (stream: AsyncIterable<any>) => {
+    const result: any[] = [];
+    for await (const value of stream) {
+      result.push(value);
+    }
+    return result;
+  };
+
+  it('releases the reader lock after the iteration', async () => {
+    const stream = createXStream();
+    for await (const value of stream) {
+      expect(value).toEqual({ data: 'a' });
+      break;
+    }
+    expect(stream.locked).toBe(false);
+    expect(await readAll(stream)).toEqual([{ data: 'b' }]);
+  });
+
+  it('tees the stream to several consumers', async () => {
+    const [ui, logger, recorder] = teeXStream(createXStream(), 3);
+    const results = await Promise.all([readAll(ui), readAll(logger), readAll(recorder)]);
+    results.forEach((result) => {
+      expect(result).toEqual([{ data: 'a' }, { data: 'b' }]);
+    });
+  });
+
+  it('throws an error when tee with invalid arguments', () => {
+    expect(() => teeXStream({} as any)).toThrow(
+      'The stream must be an instance of ReadableStream.',
+    );
+    expect(() => teeXStream(createXStream(), 0)).toThrow('The count must be a positive integer.');
+  });
+
+  it('records the stream into a serializable transcript', async () => {
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValueOnce(1000).mockReturnValueOnce(1100).mockReturnValueOnce(1300);
+    const transcript = await recordXStream(createXStream());
+    now.mockRestore();
+
+    expect(JSON.parse(JSON.stringify(transcript))).toEqual({
+      chunks: [
+        { time: 100, chunk: { data: 'a' } },
+        { time: 300, chunk: { data: 'b' } },
+      ],
+    });
+  });
+
+  it('replays the transcript with the scaled timing', async () => {
+    jest.useFakeTimers();
+    const transcript = {
+      chunks: [
+        { time: 100, chunk: { data: 'a' } },
+        { time: 300, chunk: { data: 'b' } },
+      ],
+    };
+    const result: any[] = [];
+    const reading = (async () => {
+      for await (const value of replayXStream(transcript, { timeScale: 0.5 })) {
+        result.push(value);
+      }
+    })();
+
+    await jest.advanceTimersByTimeAsync(49);
+    expect(result).toEqual([]);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(result).toEqual([{ data: 'a' }]);
+    await jest.advanceTimersByTimeAsync(100);
+    await reading;
+    expect(result).toEqual([{ data: 'a' }, { data: 'b' }]);
+    jest.useRealTimers();
+  });
+
+  it('replays the transcript without waiting when timeScale is 0', async () => {
+    const transcript = await recordXStream(createXStream());
+    transcript.chunks[1].time = 60000;
+    expect(await readAll(replayXStream(transcript, { timeScale: 0 }))).toEqual([
+      { data: 'a' },
+      { data: 'b' },
+    ]);
+  });
 });
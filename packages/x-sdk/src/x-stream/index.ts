@@ -1,7 +1,8 @@
 /**
- * @description default separator for {@link splitStream}
+ * @description Line terminators of the event stream, a single `\r` is a line terminator as well
+ * @link https://html.spec.whatwg.org/multipage/server-sent-events.html#parsing-an-event-stream
  */
-const DEFAULT_STREAM_SEPARATOR = '\n\n';
+const LINE_SEPARATOR = /\r\n|\r|\n/;
 /**
  * @description Default separator for {@link splitPart}
  * @example "event: delta\ndata: {\"key\": \"value\"}"
@@ -19,7 +20,8 @@ const DEFAULT_KV_SEPARATOR = ':';
 const isValidString = (str: string) => (str ?? '').trim() !== '';
 
 /**
- * @description A TransformStream inst that splits a stream into parts based on {@link DEFAULT_STREAM_SEPARATOR}
+ * @description A TransformStream inst that splits a stream into parts by empty lines,
+ * the lines of a part are joined with {@link DEFAULT_PART_SEPARATOR}, no matter they end with `\r\n`, `\r` or `\n`
  * @example
  *
  * `event: delta
@@ -31,32 +33,49 @@ const isValidString = (str: string) => (str ?? '').trim() !== '';
  * `
  */
 function splitStream() {
-  // Buffer to store incomplete data chunks between transformations
+  // Buffer to store incomplete line between transformations
   let buffer = '';
+  // Lines of the current part
+  let lines: string[] = [];
+
+  const enqueuePart = (controller: TransformStreamDefaultController<string>) => {
+    // Skip empty parts
+    if (lines.length > 0) {
+      controller.enqueue(lines.join(DEFAULT_PART_SEPARATOR));
+    }
+    lines = [];
+  };
+
+  const enqueueLines = (
+    completeLines: string[],
+    controller: TransformStreamDefaultController<string>,
+  ) => {
+    completeLines.forEach((line) => {
+      // An empty line dispatches the part
+      if (line === '') {
+        enqueuePart(controller);
+      } else {
+        lines.push(line);
+      }
+    });
+  };
 
   return new TransformStream<string, string>({
     transform(streamChunk, controller) {
       buffer += streamChunk;
 
-      // Split the buffer based on the separator
-      const parts = buffer.split(DEFAULT_STREAM_SEPARATOR);
+      // A trailing `\r` may be the first half of `\r\n`, keep it until the next chunk arrives
+      const pendingCR = buffer.endsWith('\r');
+      const completeLines = (pendingCR ? buffer.slice(0, -1) : buffer).split(LINE_SEPARATOR);
 
-      // Enqueue all complete parts except for the last incomplete one
-      parts.slice(0, -1).forEach((part) => {
-        // Skip empty parts
-        if (isValidString(part)) {
-          controller.enqueue(part);
-        }
-      });
-
-      // Save the last incomplete part back to the buffer for the next chunk
-      buffer = parts[parts.length - 1];
+      // Save the last incomplete line back to the buffer for the next chunk
+      buffer = `${completeLines.pop()}${pendingCR ? '\r' : ''}`;
+      enqueueLines(completeLines, controller);
     },
     flush(controller) {
-      // If there's any remaining data in the buffer, enqueue it as the final part
-      if (isValidString(buffer)) {
-        controller.enqueue(buffer);
-      }
+      // Unlike EventSource, the last part is still enqueued when the stream ends without an empty line
+      enqueueLines(buffer.split(LINE_SEPARATOR), controller);
+      enqueuePart(controller);
     },
   });
 }
@@ -87,39 +106,55 @@ export interface JSONOutPut extends Partial<Record<SSEFields, any>> {
  *
  * "event: delta\ndata: { key: 'world!' }\n"
  *
- * @link https://developer.mozilla.org/en-US/docs/Web/API/EventSource
+ * @link https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ *
+ * The part is interpreted as EventSource does:
+ * - Lines starting with a colon (`:`) are comments.
+ * - A single space after the colon is removed from the value, a line without colon is a field with an empty value.
+ * - Multiple `data` lines are joined with `\n`.
+ * - The `id` containing NULL and the `retry` which is not made of ASCII digits are ignored, so are the unknown fields.
  *
- * When handling responses with `Content-Type: text/event-stream`, the following standard practices are commonly observed:
- * - Double newline characters (`\n\n`) are used to separate individual events.
- * - Single newline characters (`\n`) are employed to separate line within an event.
+ * Different from EventSource, the part without `data` is enqueued as well, so that `id` and `retry` reach the consumer.
  */
 function splitPart() {
   return new TransformStream<string, SSEOutput>({
     transform(partChunk, controller) {
-      // Split the chunk into key-value pairs using the partSeparator
+      // Split the chunk into lines using the partSeparator
       const lines = partChunk.split(DEFAULT_PART_SEPARATOR);
+      const dataLines: string[] = [];
 
       const sseEvent = lines.reduce<SSEOutput>((acc, line) => {
+        // The colon at the start of the line is used for comment lines, skip directly
+        if (line.startsWith(DEFAULT_KV_SEPARATOR)) return acc;
+
         const separatorIndex = line.indexOf(DEFAULT_KV_SEPARATOR);
 
-        if (separatorIndex === -1) {
-          throw new Error(
-            `The key-value separator "${DEFAULT_KV_SEPARATOR}" is not found in the sse line chunk!`,
-          );
+        // Extract the key from the beginning of the line up to the separator, the whole line if there is no separator
+        const key = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+
+        // Extract the value from the line after the separator, a single leading space should be ignored
+        const rawValue = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+        const value = rawValue.startsWith(' ') ? rawValue.slice(1) : rawValue;
+
+        switch (key as SSEFields) {
+          case 'data':
+            dataLines.push(value);
+            return acc;
+          case 'event':
+            return { ...acc, event: value };
+          case 'id':
+            return value.includes('\0') ? acc : { ...acc, id: value };
+          case 'retry':
+            return /^\d+$/.test(value) ? { ...acc, retry: value } : acc;
+          default:
+            return acc;
         }
-
-        // Extract the key from the beginning of the line up to the separator
-        const key = line.slice(0, separatorIndex);
-
-        // The colon is used for comment lines, skip directly
-        if (!isValidString(key)) return acc;
-
-        // Extract the value from the line after the separator
-        const value = line.slice(separatorIndex + 1);
-
-        return { ...acc, [key]: value };
       }, {});
 
+      if (dataLines.length > 0) {
+        sseEvent.data = dataLines.join(DEFAULT_PART_SEPARATOR);
+      }
+
       if (Object.keys(sseEvent).length === 0) return;
 
       // Reduce the key-value pairs into a single object and enqueue
@@ -128,6 +163,42 @@ function splitPart() {
   });
 }
 
+/**
+ * @description A TransformStream inst that parses newline-delimited JSON, one JSON object per line
+ * @link https://github.com/ndjson/ndjson-spec
+ * @example
+ *
+ * `{"message":{"content":"Hello"}}
+ * {"message":{"content":" world"}}
+ * `
+ */
+export function ndjsonTransformStream<Output = any>() {
+  // Buffer to store incomplete line between transformations
+  let buffer = '';
+
+  const enqueueLine = (line: string, controller: TransformStreamDefaultController<Output>) => {
+    // Both `\n` and `\r\n` are valid line separators
+    const json = line.replace(/\r$/, '');
+    if (isValidString(json)) {
+      controller.enqueue(JSON.parse(json));
+    }
+  };
+
+  return new TransformStream<string, Output>({
+    transform(streamChunk, controller) {
+      buffer += streamChunk;
+      const lines = buffer.split(DEFAULT_PART_SEPARATOR);
+      lines.slice(0, -1).forEach((line) => {
+        enqueueLine(line, controller);
+      });
+      buffer = lines[lines.length - 1];
+    },
+    flush(controller) {
+      enqueueLine(buffer, controller);
+    },
+  });
+}
+
 export interface XStreamOptions<Output> {
   /**
    * @description Readable stream of binary data
@@ -141,58 +212,196 @@ export interface XStreamOptions<Output> {
    * @link https://developer.mozilla.org/en-US/docs/Web/API/TransformStream
    */
   transformStream?: TransformStream<string, Output>;
+
+  /**
+   * @description The encoding of the text, e.g. `gbk`
+   * @default 'utf-8'
+   * @link https://developer.mozilla.org/en-US/docs/Web/API/Encoding_API/Encodings
+   */
+  encoding?: string;
+
+  /**
+   * @description Decompress the binary data before decoding, for the compressed body which is not unwrapped by the proxy
+   * @link https://developer.mozilla.org/en-US/docs/Web/API/DecompressionStream
+   */
+  decompression?: CompressionFormat;
 }
 
 export type XReadableStream<R = SSEOutput> = ReadableStream<R> & AsyncGenerator<R>;
 
 /**
  * @description Transform Uint8Array binary stream to {@link SSEOutput} by default
- * @warning The `XStream` only support the `utf-8` encoding. More encoding support maybe in the future.
  */
 function XStream<Output = SSEOutput>(options: XStreamOptions<Output>) {
-  const { readableStream, transformStream } = options;
+  const { readableStream, transformStream, encoding = 'utf-8', decompression } = options;
 
   if (!(readableStream instanceof ReadableStream)) {
     throw new Error('The options.readableStream must be an instance of ReadableStream.');
   }
 
-  // Default encoding is `utf-8`
-  const decoderStream = new TextDecoderStream();
+  if (decompression && typeof DecompressionStream === 'undefined') {
+    throw new Error('The DecompressionStream is not supported in the current environment.');
+  }
+
+  // Throw a RangeError if the encoding is not supported,
+  // the BOM at the start of the stream is stripped by the decoder as EventSource does
+  const decoderStream = new TextDecoderStream(encoding, { ignoreBOM: false });
+
+  /**
+   * Uint8Array compressed binary -> Uint8Array binary
+   */
+  const binaryStream = decompression
+    ? readableStream.pipeThrough(
+        new DecompressionStream(decompression) as TransformStream<Uint8Array, Uint8Array>,
+      )
+    : readableStream;
 
   const stream = (
     transformStream
       ? /**
          * Uint8Array binary -> string -> Output
          */
-        readableStream
+        binaryStream
           .pipeThrough(decoderStream as TransformStream<Uint8Array, string>)
           .pipeThrough(transformStream)
       : /**
          * Uint8Array binary -> string -> SSE part string -> Default Output {@link SSEOutput}
          */
-        readableStream
+        binaryStream
           .pipeThrough(decoderStream as TransformStream<Uint8Array, string>)
           .pipeThrough(splitStream())
           .pipeThrough(splitPart())
   ) as XReadableStream<Output>;
 
-  /** support async iterator */
+  return withAsyncIterator(stream);
+}
+
+/**
+ * Support async iterator for the ReadableStream, the lock of the reader is released
+ * when the iteration is finished, so that the stream can be read again after `break`
+ */
+function withAsyncIterator<Output>(readableStream: ReadableStream<Output>) {
+  const stream = readableStream as XReadableStream<Output>;
+
   stream[Symbol.asyncIterator] = async function* () {
     const reader = this.getReader();
 
-    while (true) {
-      const { done, value } = await reader.read();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
 
-      if (done) break;
+        if (done) break;
 
-      if (!value) continue;
+        if (!value) continue;
 
-      // Transformed data through all transform pipes
-      yield value;
+        // Transformed data through all transform pipes
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
     }
   };
 
   return stream;
 }
 
+/**
+ * Tee the stream to several consumers, e.g. the UI and a logger, every branch receives all chunks.
+ * The original stream is locked after that, read the branches instead
+ * @param count The number of branches
+ */
+export function teeXStream<Output = SSEOutput>(stream: ReadableStream<Output>, count = 2) {
+  if (!(stream instanceof ReadableStream)) {
+    throw new Error('The stream must be an instance of ReadableStream.');
+  }
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error('The count must be a positive integer.');
+  }
+
+  const branches: ReadableStream<Output>[] = [];
+  let rest = stream;
+  for (let i = 1; i < count; i += 1) {
+    const [branch, nextRest] = rest.tee();
+    branches.push(branch);
+    rest = nextRest;
+  }
+  branches.push(rest);
+
+  return branches.map((branch) => withAsyncIterator(branch));
+}
+
+/**
+ * @description The serializable record of a stream, which can be replayed by {@link replayXStream}
+ */
+export interface XStreamTranscript<Output = SSEOutput> {
+  chunks: {
+    /**
+     * @description The time since the start of the recording, unit: ms
+     */
+    time: number;
+    chunk: Output;
+  }[];
+}
+
+/**
+ * Read the stream to the end and record every chunk with its time into a transcript,
+ * tee the stream by {@link teeXStream} to record it while it is consumed
+ */
+export async function recordXStream<Output = SSEOutput>(
+  stream: ReadableStream<Output>,
+): Promise<XStreamTranscript<Output>> {
+  const startTime = Date.now();
+  const transcript: XStreamTranscript<Output> = { chunks: [] };
+
+  for await (const chunk of withAsyncIterator(stream)) {
+    transcript.chunks.push({ time: Date.now() - startTime, chunk });
+  }
+
+  return transcript;
+}
+
+export interface XStreamReplayOptions {
+  /**
+   * @description Scale the time between chunks, e.g. `0.5` replays twice as fast, `0` replays without waiting
+   * @default 1
+   */
+  timeScale?: number;
+}
+
+/**
+ * Replay the transcript as a new stream with the recorded timing,
+ * useful for deterministic demos and tests without a live model
+ */
+export function replayXStream<Output = SSEOutput>(
+  transcript: XStreamTranscript<Output>,
+  options: XStreamReplayOptions = {},
+) {
+  const { timeScale = 1 } = options;
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const stream = new ReadableStream<Output>({
+    async pull(controller) {
+      if (index >= transcript.chunks.length) {
+        controller.close();
+        return;
+      }
+      const { time, chunk } = transcript.chunks[index];
+      const delay = (time - (transcript.chunks[index - 1]?.time ?? 0)) * timeScale;
+      if (delay > 0) {
+        await new Promise((resolve) => {
+          timer = setTimeout(resolve, delay);
+        });
+      }
+      index += 1;
+      controller.enqueue(chunk);
+    },
+    cancel() {
+      clearTimeout(timer);
+    },
+  });
+
+  return withAsyncIterator(stream);
+}
+
 export default XStream;
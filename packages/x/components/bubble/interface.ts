@@ -67,6 +67,7 @@ export enum MessageStatus {
   success = 'success',
   error = 'error',
   abort = 'abort',
+  queued = 'queued',
 }
 
 export type Info = {
@@ -67,6 +67,10 @@ const genBubbleStyle: GenerateStyle<BubbleToken> = (token) => {
         [`&${componentCls}-loading`]: {
           alignItems: 'center',
         },
+        // The queued messages are waiting to be sent
+        [`&${componentCls}-queued ${componentCls}-content`]: {
+          opacity: token.opacityLoading,
+        },
 
         [`${componentCls}-body`]: {
           display: 'flex',
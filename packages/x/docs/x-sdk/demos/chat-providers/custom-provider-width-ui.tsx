@@ -219,7 +219,7 @@ const App = () => {
         <p>{locale.customProviderDesc}</p>
       </div>
       <Flex gap="small">
-        <Button disabled={!isRequesting} onClick={abort}>
+        <Button disabled={!isRequesting} onClick={() => abort()}>
           {locale.abort}
         </Button>
         <Button onClick={addUserMessage}>{locale.addUserMessage}</Button>
@@ -154,7 +154,7 @@ const App = () => {
           }}
         />
         <Flex gap="small">
-          <Button disabled={!isRequesting} onClick={abort}>
+          <Button disabled={!isRequesting} onClick={() => abort()}>
             {locale.abort}
           </Button>
           <Button onClick={addUserMessage}>{locale.addUserMsg}</Button>
@@ -157,7 +157,7 @@ const App = () => {
   return (
     <Flex vertical gap="middle">
       <Flex gap="small">
-        <Button disabled={!isRequesting} onClick={abort}>
+        <Button disabled={!isRequesting} onClick={() => abort()}>
           {locale.abort}
         </Button>
         <Button onClick={addUserMessage}>{locale.addUserMessage}</Button>
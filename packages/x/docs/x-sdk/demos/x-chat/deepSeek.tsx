@@ -207,7 +207,7 @@ const App = () => {
         <Flex align="center" gap="middle">
           {/* 中止按钮：仅在请求进行中时可用 */}
           {/* Abort button: only available when request is in progress */}
-          <Button disabled={!isRequesting} onClick={abort}>
+          <Button disabled={!isRequesting} onClick={() => abort()}>
             {locale.abort}
           </Button>
           <Button onClick={addUserMessage}>{locale.addUserMessage}</Button>
@@ -192,7 +192,7 @@ const App = () => {
           {`${messages.find((m) => m.message.role === 'developer')?.message.content || locale.none}`}
         </div>
         <Flex wrap align="center" gap="middle">
-          <Button disabled={!isRequesting} onClick={abort}>
+          <Button disabled={!isRequesting} onClick={() => abort()}>
             {locale.abort}
           </Button>
           <Button onClick={addUserMessage}>{locale.addUserMessage}</Button>